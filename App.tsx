@@ -1,11 +1,51 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { WireframeOverlay } from './components/WireframeOverlay';
-import { TopControls, ShutterButton, AIGuideButton, ZoomSlider, GalleryButton } from './components/Controls';
-import { Pose, TransformState } from './types';
-import { Download, X, Trash2, Share2, ChevronLeft, Images, Eye, EyeOff, ChevronDown, ChevronUp } from 'lucide-react';
+import { TopControls, ShutterButton, ZoomSlider, GalleryButton, PoseLibraryButton, CaptureModeButton, CameraModeSwitch, RecordingTimer, RecordPauseButton, RecordGuideButton } from './components/Controls';
+import { StoredImage } from './components/StoredImage';
+import { CaptureInfoSheet } from './components/CaptureInfoSheet';
+import { CompareView } from './components/CompareView';
+import { SelectionBar } from './components/SelectionBar';
+import { SettingsSheet } from './components/SettingsSheet';
+import { PoseSelector } from './components/PoseSelector';
+import { SessionBrowser } from './components/SessionBrowser';
+import { PhotoEditor } from './components/PhotoEditor';
+import { PoseEditor } from './components/PoseEditor';
+import { PoseTracer } from './components/PoseTracer';
+import { PhotoViewer } from './components/PhotoViewer';
+import { BurstPicker } from './components/BurstPicker';
+import { ViewfinderMask } from './components/ViewfinderMask';
+import { CompositionOverlay } from './components/CompositionOverlay';
+import { LevelIndicator } from './components/LevelIndicator';
+import { FocusLayer } from './components/FocusLayer';
+import { CameraStatusOverlay } from './components/CameraStatusOverlay';
+import { NightCaptureProgress } from './components/NightCaptureProgress';
+import { MomentScrubber } from './components/MomentScrubber';
+import { Pose, TransformState, CaptureRecord, CaptureSession, AppSettings, PhotoEdits, FrameRect, PreviewFit, CaptureKind, CaptureMetadata, CameraDevice, CameraState, CameraStatus, FlashMode, PoseLibraryState, AIPoseRecord, PoseSkeleton } from './types';
+import { Download, X, Trash2, Share2, ChevronLeft, Images, Eye, EyeOff, ChevronDown, ChevronUp, Info, Layers, CheckCircle2, Circle, Settings, Wand2, GalleryHorizontalEnd, Video, ScanLine } from 'lucide-react';
 import { GoogleGenAI, Modality } from "@google/genai";
-import { INITIAL_TRANSFORM } from './constants';
+import { POSES, INITIAL_TRANSFORM, NO_POSE_FILTER, BURST_FRAME_COUNT, BURST_FRAME_INTERVAL_MS, CAPTURE_ASPECTS, COMPOSITION_GRIDS, MOMENT_BUFFER_MS, MOMENT_BUFFER_FPS, MOMENT_BUFFER_MAX_BYTES, MOMENT_PREVIEW_MAX_EDGE, ZOOM_PRESETS, FLASH_MODES, NIGHT_FRAME_COUNT, NIGHT_FRAME_INTERVAL_MS, NIGHT_LUMA_THRESHOLD } from './constants';
+import { StorageFullError, requestPersistentStorage } from './utils/db';
+import { loadGallery, saveCapture, saveVideoCapture, deleteCapture, deleteCaptures, saveSession, mergeSessions, deleteSession, updateCaptureEdits, selectMomentFrame, getCaptureBlob } from './utils/galleryStore';
+import { exportCapturesZip, prepareCaptureForExport, prepareGuideLayerForExport, captureFileName, guideLayerFileName } from './utils/galleryExport';
+import { groupCapturesBySession, createSession, findActiveSession } from './utils/sessions';
+import { shareOrDownload, formatFileTimestamp } from './utils/file';
+import { loadSettings, saveSettings } from './utils/settings';
+import { loadCustomPoses, saveCustomPoses, deleteCustomPose } from './utils/poseStore';
+import { importPoseFile, createCustomPoseId } from './utils/poseImport';
+import { PosePackError, isPosePackFile, readPosePackFile, createPosePack, posePackFileName } from './utils/posePack';
+import { loadAIPoseHistory, saveAIPose, updateAIPose, deleteAIPose } from './utils/aiPoseStore';
+import { loadPoseLibrary, savePoseLibrary, addRecentPose, toggleFavoritePose } from './utils/poseLibrary';
+import { canvasToBlob, processImageForTransparency } from './utils/image';
+import { drawPoseGuide, loadPoseImage, getCaptureRect, sourceRectToScreen, screenToSourcePoint, FrameMapping } from './utils/compositing';
+import { CameraControlSupport, getCameraControlSupport, canFocusAtPoint, canLockFocusExposure, focusAtPoint, setExposureCompensation } from './utils/cameraControls';
+import { sleep, isAbortError, playBeep, formatDuration } from './utils/timing';
+import { VideoRecording, isVideoRecordingSupported, startVideoRecording } from './utils/videoRecorder';
+import { BufferedFrame, FrameBuffer, startFrameBuffer } from './utils/frameBuffer';
+import { createFrameStacker, measureLuma } from './utils/nightStack';
+import { listCameraDevices, pickLensForZoom } from './utils/cameraDevices';
+import { INITIAL_CAMERA_STATE, transitionCamera, classifyCameraError, getConstraintLadder, openCameraStream, watchCameraPermission } from './utils/cameraLifecycle';
+import { needsOrientationPermission, requestOrientationPermission } from './utils/orientation';
 
 // --- AUDIO HELPERS ---
 
@@ -30,52 +70,6 @@ function arrayBufferToBase64(buffer: ArrayBuffer) {
     return window.btoa(binary);
 }
 
-// Helper to convert black-background images to transparent white overlays
-const processImageForTransparency = (base64Data: string): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        reject(new Error('Could not get canvas context'));
-        return;
-      }
-      ctx.drawImage(img, 0, 0);
-      
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageData.data;
-      
-      // Loop through pixels
-      for (let i = 0; i < data.length; i += 4) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-        
-        // Calculate brightness (Luma)
-        const brightness = (r + g + b) / 3;
-        
-        // Convert to White with Alpha based on brightness
-        data[i] = 255;     // R
-        data[i + 1] = 255; // G
-        data[i + 2] = 255; // B
-        
-        // Any brightness below 20 becomes 0 alpha
-        const alpha = brightness < 20 ? 0 : brightness;
-        data[i + 3] = alpha; 
-      }
-      
-      ctx.putImageData(imageData, 0, 0);
-      resolve(canvas.toDataURL('image/png')); // Must be PNG for transparency
-    };
-    img.onerror = (e) => reject(e);
-    img.src = `data:image/png;base64,${base64Data}`;
-  });
-};
-
 export default function App() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -86,25 +80,75 @@ export default function App() {
   const [poseTransform, setPoseTransform] = useState<TransformState>(INITIAL_TRANSFORM);
 
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
-  const [flashEnabled, setFlashEnabled] = useState(false);
+  const [flashMode, setFlashMode] = useState<FlashMode>('off');
+  const [isNightMode, setIsNightMode] = useState(false);
+  const [nightProgress, setNightProgress] = useState<number | null>(null); // 0-1 while night frames are gathered
   const [isGeneratingPose, setIsGeneratingPose] = useState(false);
   
   // Gallery State
-  const [gallery, setGallery] = useState<string[]>([]);
+  const [gallery, setGallery] = useState<CaptureRecord[]>([]);
+  const [sessions, setSessions] = useState<CaptureSession[]>([]);
+  const [gallerySessionFilter, setGallerySessionFilter] = useState<string | null>(null);
   const [isGalleryOpen, setIsGalleryOpen] = useState(false);
-  const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
+  const [selectedCaptureId, setSelectedCaptureId] = useState<string | null>(null);
+  const [isInfoOpen, setIsInfoOpen] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isExporting, setIsExporting] = useState(false);
+  const [galleryPoseFilter, setGalleryPoseFilter] = useState<string | null>(null); // Pose id, NO_POSE_FILTER or null for all
   const [isFlashing, setIsFlashing] = useState(false);
+  const [burstPickerId, setBurstPickerId] = useState<string | null>(null);
+
+  // Timer / Interval / Burst Sequence State
+  const [isSequenceRunning, setIsSequenceRunning] = useState(false);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [sequenceProgress, setSequenceProgress] = useState<{ current: number; total: number } | null>(null);
+
+  // Video State
+  const [cameraMode, setCameraMode] = useState<CaptureKind>('photo');
+  const [isRecording, setIsRecording] = useState(false);
+  const [isRecordingPaused, setIsRecordingPaused] = useState(false);
+  const [recordingElapsed, setRecordingElapsed] = useState(0);
+
+  const [videoSize, setVideoSize] = useState<{ width: number; height: number } | null>(null);
 
   // Zoom State
   const [zoomLevel, setZoomLevel] = useState(1);
   const [zoomCapabilities, setZoomCapabilities] = useState<{min: number, max: number, step: number} | null>(null);
 
+  // Physical Camera / Lens State
+  const [cameraDevices, setCameraDevices] = useState<CameraDevice[]>([]);
+  const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+  const [cameraRestartToken, setCameraRestartToken] = useState(0); // Bumped to reopen the camera with the same settings
+  const [camera, setCamera] = useState<CameraState>(INITIAL_CAMERA_STATE);
+  const [isPageVisible, setIsPageVisible] = useState(() => document.visibilityState === 'visible');
+
+  // Focus / Exposure State
+  const [cameraSupport, setCameraSupport] = useState<CameraControlSupport | null>(null);
+  const [isFocusLocked, setIsFocusLocked] = useState(false);
+  const [exposureCompensation, setExposureCompensationValue] = useState(0);
+
   // Live Coaching State
   const [isLiveCoaching, setIsLiveCoaching] = useState(false);
   const [coachInstruction, setCoachInstruction] = useState<string | null>(null);
   const [debugImage, setDebugImage] = useState<string | null>(null); // Visual verification for AI view
   const [isDebugExpanded, setIsDebugExpanded] = useState(true); // Toggle for Debug View
   
+  // Settings
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [poseLibrary, setPoseLibrary] = useState<PoseLibraryState>(loadPoseLibrary);
+  const [isPoseLibraryOpen, setIsPoseLibraryOpen] = useState(false);
+  const [customPoses, setCustomPoses] = useState<Pose[]>([]);
+  const [isImportingPoses, setIsImportingPoses] = useState(false);
+  const [aiPoseHistory, setAIPoseHistory] = useState<AIPoseRecord[]>([]);
+  const [poseLibraryError, setPoseLibraryError] = useState<string | null>(null); // Shown inside the sheet, which covers the error overlay
+  const [editingPose, setEditingPose] = useState<Pose | null>(null); // Skeleton pose open in the pose editor
+  const [traceSource, setTraceSource] = useState<{ blob: Blob; name: string } | null>(null); // Photo open in the pose tracer
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [hasOrientationAccess, setHasOrientationAccess] = useState(() => !needsOrientationPermission()); // iOS asks once per page load
+
   // Splash Screen State
   const [showSplash, setShowSplash] = useState(true);
   
@@ -116,54 +160,135 @@ export default function App() {
   const videoIntervalRef = useRef<number | null>(null);
   const instructionTimeoutRef = useRef<number | null>(null);
   const poseImageRef = useRef<HTMLImageElement | null>(null); // To store the active pose image object for compositing
+  const captureAbortRef = useRef<AbortController | null>(null); // Cancels the running timer / interval / burst
+  const recordingRef = useRef<VideoRecording | null>(null);
+  const frameBufferRef = useRef<FrameBuffer | null>(null); // Pre-shutter frames for moment capture
+  const pendingZoomRef = useRef<number | null>(null); // Digital zoom to apply once a newly picked lens opens
+  const streamRef = useRef<MediaStream | null>(null); // The stream to release, whichever render started it
+  const cameraRequestRef = useRef(0); // Incremented per open, so a late getUserMedia can tell it was superseded
+  // What stopping a recording has to clean up and save alongside the clip
+  const recordingContextRef = useRef<{
+    audio: MediaStream | null;
+    torchTrack: MediaStreamTrack | null;
+    framing: { mapping: FrameMapping; rect: FrameRect };
+    pose: Pose | null;
+    transform: TransformState;
+  } | null>(null);
+
+  // Full sensor framing letterboxes the preview instead of cropping it
+  const previewFit: PreviewFit = settings.captureAspect === 'full' ? 'contain' : 'cover';
 
   // REFS to solve closure staleness in setInterval
   const poseTransformRef = useRef<TransformState>(INITIAL_TRANSFORM);
+  const activePoseRef = useRef<Pose | null>(null);
+  const previewFitRef = useRef<PreviewFit>(previewFit);
+  const cameraStatusRef = useRef<CameraStatus>(INITIAL_CAMERA_STATE.status);
 
   // Sync ref with state
   useEffect(() => {
     poseTransformRef.current = poseTransform;
   }, [poseTransform]);
 
-  // Handle image loading automatically whenever pose changes
   useEffect(() => {
-    if (activePose?.imageUrl) {
-        const img = new Image();
-        img.crossOrigin = "anonymous";
-        img.src = activePose.imageUrl;
-        img.onload = () => { poseImageRef.current = img; };
-        img.onerror = () => { console.warn("Failed to load pose image for AI context"); };
-    } else {
-        poseImageRef.current = null;
-    }
+    activePoseRef.current = activePose;
   }, [activePose]);
+
+  useEffect(() => {
+    previewFitRef.current = previewFit;
+  }, [previewFit]);
+
+  useEffect(() => {
+    cameraStatusRef.current = camera.status;
+  }, [camera.status]);
+
+  // Load persisted gallery on startup
+  useEffect(() => {
+    requestPersistentStorage();
+    loadGallery()
+      .then(({ captures, sessions }) => {
+        setGallery(captures);
+        setSessions(sessions);
+      })
+      .catch((e) => {
+        console.error("Failed to load gallery", e);
+        setError("無法讀取相簿資料");
+      });
+    loadCustomPoses()
+      .then(setCustomPoses)
+      .catch((e) => console.error("Failed to load custom poses", e));
+    loadAIPoseHistory()
+      .then(setAIPoseHistory)
+      .catch((e) => console.error("Failed to load AI pose history", e));
+  }, []);
+
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    savePoseLibrary(poseLibrary);
+  }, [poseLibrary]);
+
+  // Handle image loading automatically whenever pose changes
+  useEffect(() => {
+    poseImageRef.current = null;
+    if (!activePose) return;
+
+    let cancelled = false;
+    loadPoseImage(activePose, window.innerWidth, window.innerHeight, settings.skeletonLineWeight)
+        .then((img) => { if (!cancelled) poseImageRef.current = img; })
+        .catch(() => { console.warn("Failed to load pose image for AI context"); });
+    return () => { cancelled = true; };
+  }, [activePose, settings.skeletonLineWeight]);
   
+  const preferredDeviceId = settings.preferredCameras[facingMode];
+
+  const refreshCameraDevices = async () => {
+    try {
+      setCameraDevices(await listCameraDevices());
+    } catch (e) {
+      console.warn("Could not list cameras", e);
+    }
+  };
+
+  const releaseStream = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setStream(null);
+  };
+
   // Initialize Camera
   const startCamera = useCallback(async () => {
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
-    }
+    releaseStream();
+    const request = ++cameraRequestRef.current;
+    setCamera(prev => transitionCamera(prev, { type: 'request' }));
 
     try {
-      const constraints: MediaStreamConstraints = {
-        audio: false, // Main camera stream doesn't need audio, we handle mic separately for AI
-        video: {
-          facingMode: facingMode,
-          width: { ideal: 1920 },
-          height: { ideal: 1080 },
-        }
-      };
-
-      const newStream = await navigator.mediaDevices.getUserMedia(constraints);
+      const newStream = await openCameraStream(getConstraintLadder(facingMode, preferredDeviceId));
+      // Superseded while opening (page hidden, camera switched): this stream is nobody's
+      if (request !== cameraRequestRef.current) {
+        newStream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      streamRef.current = newStream;
       setStream(newStream);
       
       if (videoRef.current) {
         videoRef.current.srcObject = newStream;
       }
 
-      // Check for Zoom Capabilities
       const videoTrack = newStream.getVideoTracks()[0];
+      setActiveDeviceId(videoTrack.getSettings().deviceId ?? null);
+      // Unplugged, taken by another app or stopped by the OS; never fired for our own track.stop()
+      videoTrack.addEventListener('ended', () => {
+        if (streamRef.current === newStream) setCamera(prev => transitionCamera(prev, { type: 'track-ended' }));
+      });
+      refreshCameraDevices(); // Labels only show up once permission is granted
+
+      // Check for Zoom Capabilities
       const capabilities = videoTrack.getCapabilities() as any; // Cast to any because TS DOM types lag behind
+      const pendingZoom = pendingZoomRef.current;
+      pendingZoomRef.current = null;
       
       if (capabilities.zoom) {
         setZoomCapabilities({
@@ -171,30 +296,191 @@ export default function App() {
             max: capabilities.zoom.max,
             step: capabilities.zoom.step
         });
-        setZoomLevel(1); // Reset zoom
+        // A zoom preset that picked this lens may still need some digital zoom on top
+        const initialZoom = Math.max(capabilities.zoom.min, Math.min(capabilities.zoom.max, pendingZoom ?? 1));
+        if (initialZoom !== 1) {
+          try {
+            await videoTrack.applyConstraints({ advanced: [{ zoom: initialZoom } as any] });
+          } catch (e) {
+            console.warn("Zoom not supported by hardware", e);
+          }
+        }
+        setZoomLevel(initialZoom);
       } else {
         setZoomCapabilities(null);
       }
 
-      setError(null);
+      // Focus / exposure controls start fresh on every new track
+      setCameraSupport(getCameraControlSupport(videoTrack));
+      setIsFocusLocked(false);
+      setExposureCompensationValue(0);
+
+      setCamera(prev => transitionCamera(prev, { type: 'started' }));
     } catch (err) {
-      console.error(err);
-      setError("無法存取相機，請檢查權限設定");
+      if (request !== cameraRequestRef.current) return;
+      console.error("Camera failed to open", err);
+      setCamera(prev => transitionCamera(prev, { type: 'failed', failure: classifyCameraError(err) }));
     }
-  }, [facingMode]);
+  }, [facingMode, preferredDeviceId, cameraRestartToken]);
 
+  // (Re)open the camera whenever what it should show changes, and release it while the page is hidden
   useEffect(() => {
+    if (!isPageVisible) return;
     startCamera();
     return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
+      cameraRequestRef.current++; // Drop any open still in flight
+      releaseStream();
+      captureAbortRef.current?.abort();
       stopLiveSession();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [facingMode]);
+  }, [facingMode, preferredDeviceId, cameraRestartToken, isPageVisible]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setIsPageVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Backgrounded: a running clip is saved (its tracks have just been released) and the camera marked suspended
+  useEffect(() => {
+    if (isPageVisible) return;
+    if (recordingRef.current) stopRecording();
+    setCamera(prev => transitionCamera(prev, { type: 'suspend' }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isPageVisible]);
+
+  // Permission revoked from the browser UI stops the camera; granting it again reopens it
+  useEffect(() => {
+    let cancelled = false;
+    let unwatch: (() => void) | null = null;
+    watchCameraPermission((state) => {
+      if (state === 'denied') {
+        cameraRequestRef.current++;
+        releaseStream();
+        setCamera(prev => transitionCamera(prev, { type: 'failed', failure: 'denied' }));
+      } else if (state === 'granted' && cameraStatusRef.current === 'denied') {
+        setCameraRestartToken(t => t + 1);
+      }
+    }).then((cleanup) => {
+      if (cancelled) cleanup();
+      else unwatch = cleanup;
+    });
+    return () => {
+      cancelled = true;
+      unwatch?.();
+    };
+  }, []);
+
+  // Cameras come and go (webcams, external lenses). A preferred camera that was missing when the
+  // camera opened takes over as soon as it shows up again, and a lost camera retries on its own.
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+
+    const handleDeviceChange = async () => {
+      const devices = await listCameraDevices().catch(() => null);
+      if (!devices) return;
+      setCameraDevices(devices);
+      const isPreferredBack = !!preferredDeviceId && activeDeviceId !== preferredDeviceId && devices.some(d => d.deviceId === preferredDeviceId);
+      const isCameraBack = (camera.failure === 'not-found' || camera.failure === 'interrupted') && devices.length > 0;
+      if ((isPreferredBack || isCameraBack) && !isRecording) {
+        setCameraRestartToken(t => t + 1);
+      }
+    };
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [preferredDeviceId, activeDeviceId, isRecording, camera.failure]);
+
+  // Retry from the failure overlay. A lens that cannot satisfy the constraints is forgotten first.
+  const retryCamera = () => {
+    if (camera.failure === 'overconstrained' && preferredDeviceId) {
+      setSettings(prev => {
+        const { [facingMode]: _forgotten, ...rest } = prev.preferredCameras;
+        return { ...prev, preferredCameras: rest };
+      });
+    }
+    setCameraRestartToken(t => t + 1);
+  };
+
+  // Remember the choice per facing direction; external webcams count as the current direction
+  const selectCameraDevice = (device: CameraDevice) => {
+    if (isRecording) return;
+    const facing = device.facing ?? facingMode;
+    setSettings(prev => ({ ...prev, preferredCameras: { ...prev.preferredCameras, [facing]: device.deviceId } }));
+    setFacingMode(facing);
+    setCameraRestartToken(t => t + 1); // Reopen even when it already was the preference but had fallen back
+  };
+
+  const handleFocusAt = async (screenPoint: { x: number; y: number }, lock: boolean) => {
+    const track = stream?.getVideoTracks()[0];
+    const video = videoRef.current;
+    if (!track || !cameraSupport || !video?.videoWidth) return;
+
+    const point = screenToSourcePoint(screenPoint, {
+        screenWidth: window.innerWidth,
+        screenHeight: window.innerHeight,
+        sourceWidth: video.videoWidth,
+        sourceHeight: video.videoHeight,
+        fit: previewFit,
+    }, facingMode === 'user');
+    if (!point) return;
+
+    try {
+        await focusAtPoint(track, cameraSupport, point, lock);
+        setIsFocusLocked(lock);
+        // A fresh tap starts from neutral exposure, like the system camera
+        if (!lock && exposureCompensation !== 0 && cameraSupport.exposureCompensation) {
+            await setExposureCompensation(track, 0);
+            setExposureCompensationValue(0);
+        }
+    } catch (e) {
+        console.warn("Focus / exposure not applied", e);
+    }
+  };
+
+  const handleExposureChange = async (value: number) => {
+    setExposureCompensationValue(value);
+    const track = stream?.getVideoTracks()[0];
+    if (!track) return;
+    try {
+        await setExposureCompensation(track, value);
+    } catch (e) {
+        console.warn("Exposure compensation not supported by hardware", e);
+    }
+  };
+
+  const cycleCaptureAspect = () => {
+    if (isRecording) return; // The preview fit is fixed for the clip
+    const index = CAPTURE_ASPECTS.findIndex(a => a.id === settings.captureAspect);
+    const next = CAPTURE_ASPECTS[(index + 1) % CAPTURE_ASPECTS.length];
+    setSettings(prev => ({ ...prev, captureAspect: next.id }));
+  };
+
+  const cycleCompositionGrid = () => {
+    const index = COMPOSITION_GRIDS.findIndex(g => g.id === settings.compositionGrid);
+    const next = COMPOSITION_GRIDS[(index + 1) % COMPOSITION_GRIDS.length];
+    setSettings(prev => ({ ...prev, compositionGrid: next.id }));
+  };
+
+  // Must run inside the tap handler: iOS only shows the motion permission prompt for a user gesture
+  const toggleLevel = async () => {
+    if (settings.showLevel && hasOrientationAccess) {
+        setSettings(prev => ({ ...prev, showLevel: false }));
+        return;
+    }
+
+    const granted = await requestOrientationPermission();
+    setHasOrientationAccess(granted);
+    if (!granted) {
+        setError("無法取得裝置方向，請在瀏覽器設定中允許「動作與方向」存取");
+        return;
+    }
+    setSettings(prev => ({ ...prev, showLevel: true }));
+  };
 
   const toggleCamera = () => {
+    if (isRecording) return; // The recorder holds the current track
     setFacingMode(prev => prev === 'environment' ? 'user' : 'environment');
   };
 
@@ -214,105 +500,792 @@ export default function App() {
     }
   };
 
-  const capturePhoto = async () => {
-    if (!videoRef.current || !canvasRef.current || !stream) return;
+  // The zoom shown to the user is relative to the main wide lens: lens factor × the track's own zoom
+  const activeDevice = cameraDevices.find(d => d.deviceId === activeDeviceId);
+  const lensZoom = activeDevice?.zoomFactor ?? 1;
+  const trackZoomRange = { min: zoomCapabilities?.min || 1, max: zoomCapabilities?.max || 1 };
+  const zoomPresets = ZOOM_PRESETS.filter(preset =>
+    cameraDevices.some(d => d.facing === facingMode && d.zoomFactor === preset) ||
+    (preset >= trackZoomRange.min * lensZoom && preset <= trackZoomRange.max * lensZoom)
+  );
 
-    // 1. Handle Flash (Torch)
-    const track = stream.getVideoTracks()[0];
-    let didEnableTorch = false;
-    
-    if (flashEnabled && facingMode === 'environment') {
-        try {
-            await track.applyConstraints({
-                advanced: [{ torch: true } as any]
-            });
-            didEnableTorch = true;
-            // Short delay to let camera adjust exposure to the light
-            await new Promise(r => setTimeout(r, 200)); 
-        } catch (e) {
-            console.warn("Torch not supported", e);
-        }
+  // Presets jump to the matching physical lens when there is one, and zoom digitally otherwise
+  const handleZoomPreset = (preset: number) => {
+    const lens = pickLensForZoom(cameraDevices, facingMode, preset);
+    if (lens && lens.deviceId !== activeDeviceId && !isRecording) {
+        pendingZoomRef.current = preset / lens.zoomFactor!;
+        selectCameraDevice(lens);
+        return;
+    }
+    handleZoomChange(Math.max(trackZoomRange.min, Math.min(trackZoomRange.max, preset / lensZoom)));
+  };
+
+  // --- CAPTURE ---
+
+  // Turn the torch on when flash is enabled on the rear camera; returns the track it was lit on
+  const enableTorch = async (): Promise<MediaStreamTrack | null> => {
+    const track = stream?.getVideoTracks()[0];
+    if (!track || flashMode !== 'on' || facingMode !== 'environment') return null;
+
+    try {
+        await track.applyConstraints({
+            advanced: [{ torch: true } as any]
+        });
+        // Short delay to let camera adjust exposure to the light
+        await sleep(200);
+        return track;
+    } catch (e) {
+        console.warn("Torch not supported", e);
+        return null;
+    }
+  };
+
+  const disableTorch = async (track: MediaStreamTrack) => {
+    try {
+        await track.applyConstraints({
+            advanced: [{ torch: false } as any]
+        });
+    } catch (e) {
+        console.error("Failed to turn off torch", e);
     }
+  };
 
-    // 2. Visual Flash Effect
+  // Keep the torch on for the duration of `shoot`
+  const withTorch = async (shoot: (torchFired: boolean) => Promise<void>) => {
+    const torchTrack = await enableTorch();
+    try {
+        await shoot(!!torchTrack);
+    } finally {
+        if (torchTrack) await disableTorch(torchTrack);
+    }
+  };
+
+  const flashScreen = () => {
     setIsFlashing(true);
     setTimeout(() => setIsFlashing(false), 150);
+  };
 
-    const video = videoRef.current;
+  // How the current video frame maps onto the screen, and the part of it a capture keeps
+  const getCaptureFraming = () => {
+    const video = videoRef.current!;
+    const mapping: FrameMapping = {
+      screenWidth: window.innerWidth,
+      screenHeight: window.innerHeight,
+      sourceWidth: video.videoWidth,
+      sourceHeight: video.videoHeight,
+      fit: previewFit,
+    };
+    const aspect = CAPTURE_ASPECTS.find(a => a.id === settings.captureAspect);
+    return { mapping, rect: getCaptureRect(mapping, aspect?.ratio ?? null) };
+  };
+
+  // Crop a frame to the capture rect in the processing canvas (mirrored for the front camera)
+  const drawFrame = (frame: CanvasImageSource, frameWidth: number, rect: FrameRect) => {
     const canvas = canvasRef.current;
-    
-    // Set canvas dimensions to match video stream resolution
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      // Mirror if using front camera
-      if (facingMode === 'user') {
-        ctx.translate(canvas.width, 0);
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) throw new Error('Could not get canvas context');
+
+    canvas.width = rect.width;
+    canvas.height = rect.height;
+    // The preview is mirrored with CSS, so the visible rect comes from the opposite side of the raw frame
+    const sourceX = facingMode === 'user' ? frameWidth - rect.x - rect.width : rect.x;
+    if (facingMode === 'user') {
+        ctx.translate(rect.width, 0);
         ctx.scale(-1, 1);
-      }
-      
-      // Draw video frame
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-      
-      // Convert to image
-      const dataUrl = canvas.toDataURL('image/jpeg', 0.9);
-      
-      // Save to Gallery
-      setGallery(prev => [...prev, dataUrl]);
     }
+    ctx.drawImage(frame, sourceX, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+    return canvas;
+  };
+
+  const encodeFrame = (frame: CanvasImageSource, frameWidth: number, rect: FrameRect) =>
+    canvasToBlob(drawFrame(frame, frameWidth, rect), 'image/jpeg', 0.9);
+
+  // Gather night frames of the capture rect and average them, with the hold-still ring up meanwhile
+  const stackNightFrames = async (video: HTMLVideoElement, rect: FrameRect) => {
+    setNightProgress(0);
+    try {
+        let canvas = drawFrame(video, video.videoWidth, rect);
+        const stacker = createFrameStacker(canvas.width, canvas.height);
+        for (let i = 0; i < NIGHT_FRAME_COUNT; i++) {
+            if (i > 0) {
+                await sleep(NIGHT_FRAME_INTERVAL_MS); // Let the next video frame arrive (and the ring repaint)
+                canvas = drawFrame(video, video.videoWidth, rect);
+            }
+            stacker.add(canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height));
+            setNightProgress((i + 1) / NIGHT_FRAME_COUNT);
+        }
+        canvas.getContext('2d')!.putImageData(stacker.result(), 0, 0);
+        return { blob: await canvasToBlob(canvas, 'image/jpeg', 0.9), frameCount: stacker.frameCount() };
+    } finally {
+        setNightProgress(null);
+    }
+  };
+
+  const buildCaptureMetadata = (
+    framing: ReturnType<typeof getCaptureFraming>,
+    torchFired: boolean,
+    { pose, transform }: { pose: Pose | null; transform: TransformState } // Read together, so they always belong to each other
+  ): CaptureMetadata => ({
+    facingMode,
+    zoomLevel: (zoomCapabilities ? zoomLevel : 1) * lensZoom,
+    ...(activeDevice?.label ? { cameraLabel: activeDevice.label } : {}),
+    pose: pose ? { id: pose.id, name: pose.name } : null,
+    poseTransform: pose ? { ...transform } : null,
+    ...(pose?.skeleton ? { skeletonLineWeight: settings.skeletonLineWeight } : {}),
+    torchFired,
+    sourceWidth: framing.mapping.sourceWidth,
+    sourceHeight: framing.mapping.sourceHeight,
+    viewportWidth: framing.mapping.screenWidth,
+    viewportHeight: framing.mapping.screenHeight,
+    previewFit: framing.mapping.fit ?? 'cover',
+    captureRect: framing.rect,
+  });
+
+  const persistFrame = async (
+    blob: Blob,
+    sessionId: string,
+    framing: ReturnType<typeof getCaptureFraming>,
+    torchFired: boolean,
+    { burstId, momentFrames, nightFrames }: { burstId?: string; momentFrames?: Blob[]; nightFrames?: number } = {}
+  ) => {
+    // Sequences may run while the guide is moved or swapped, so pose and transform both come from refs
+    const guide = { pose: activePoseRef.current, transform: poseTransformRef.current };
+    const record = await saveCapture(blob, sessionId, {
+      ...buildCaptureMetadata(framing, torchFired, guide),
+      ...(burstId ? { burstId } : {}),
+      ...(nightFrames ? { nightFrames } : {}),
+    }, guide.pose, momentFrames);
+    setGallery(prev => [...prev, record]);
+  };
+
+  // Buffered frames may have been downscaled, so the capture rect is scaled to each one
+  const encodeMomentFrames = async (frames: BufferedFrame[], framing: ReturnType<typeof getCaptureFraming>) => {
+    const blobs: Blob[] = [];
+    for (const { bitmap } of frames) {
+        const k = bitmap.width / framing.mapping.sourceWidth;
+        const rect = {
+            x: Math.round(framing.rect.x * k),
+            y: Math.round(framing.rect.y * k),
+            width: Math.round(framing.rect.width * k),
+            height: Math.round(framing.rect.height * k),
+        };
+        blobs.push(await encodeFrame(bitmap, bitmap.width, rect));
+    }
+    return blobs;
+  };
+
+  // `withMoment` also keeps the buffered frames from just before the shutter
+  const shootSingle = (sessionId: string, withMoment = false) => withTorch(async (torchFired) => {
+    const video = videoRef.current!;
+    const framing = getCaptureFraming();
+    const buffered = withMoment ? frameBufferRef.current?.take() ?? [] : [];
+    // Night mode, or auto flash in a dark scene, averages frames instead of grabbing one
+    const isNight = isNightMode || (flashMode === 'auto' && measureLuma(video, video.videoWidth, video.videoHeight) < NIGHT_LUMA_THRESHOLD);
+    try {
+        if (isNight) {
+            // Single buffered frames would be the noisy kind night mode avoids, so no moment here
+            const { blob, frameCount } = await stackNightFrames(video, framing.rect);
+            flashScreen();
+            await persistFrame(blob, sessionId, framing, torchFired, { nightFrames: frameCount });
+            return;
+        }
+
+        flashScreen();
+        const blob = await encodeFrame(video, video.videoWidth, framing.rect);
+        // Frames from before the torch came on are dark, so lit shots keep only the shutter frame
+        const momentFrames = torchFired ? [] : await encodeMomentFrames(buffered, framing);
+        await persistFrame(blob, sessionId, framing, torchFired, { momentFrames });
+    } finally {
+        buffered.forEach(frame => frame.bitmap.close());
+    }
+  });
+
+  // Grab frames as fast as the interval allows, then encode and store them as one burst
+  const shootBurst = (sessionId: string, signal: AbortSignal) => withTorch(async (torchFired) => {
+    const video = videoRef.current!;
+    const framing = getCaptureFraming();
+    const frames: ImageBitmap[] = [];
+    flashScreen();
+
+    try {
+        for (let i = 0; i < BURST_FRAME_COUNT && !signal.aborted; i++) {
+            frames.push(await createImageBitmap(video));
+            setSequenceProgress({ current: i + 1, total: BURST_FRAME_COUNT });
+            await sleep(BURST_FRAME_INTERVAL_MS);
+        }
+
+        // Frames grabbed before a cancel are still kept
+        const burstId = `burst-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        for (const frame of frames) {
+            const blob = await encodeFrame(frame, frame.width, framing.rect);
+            await persistFrame(blob, sessionId, framing, torchFired, { burstId: frames.length > 1 ? burstId : undefined });
+        }
+    } finally {
+        frames.forEach(frame => frame.close());
+    }
+  });
+
+  const runCountdown = async (seconds: number, signal: AbortSignal) => {
+    for (let remaining = seconds; remaining > 0; remaining--) {
+        setCountdown(remaining);
+        playBeep(remaining <= 3 ? 880 : 660);
+        await sleep(1000, signal);
+    }
+    setCountdown(null);
+    playBeep(1320, 150);
+  };
+
+  const reportCaptureError = (e: unknown) => {
+    console.error("Failed to save photo", e);
+    setError(e instanceof StorageFullError
+      ? "儲存空間已滿，請刪除部分照片後再試"
+      : "照片儲存失敗，請重試");
+  };
 
-    // 3. Turn off Torch
-    if (didEnableTorch) {
+  const capturePhoto = async () => {
+    // Tapping the shutter while a sequence runs cancels it
+    if (captureAbortRef.current) {
+        captureAbortRef.current.abort();
+        return;
+    }
+    if (!videoRef.current || !canvasRef.current || !stream) return;
+
+    const mode = settings.captureMode;
+    if (mode === 'single') {
         try {
-             await track.applyConstraints({
-                advanced: [{ torch: false } as any]
-            });
+            await shootSingle(await resolveCaptureSessionId(), true);
         } catch (e) {
-            console.error("Failed to turn off torch", e);
+            reportCaptureError(e);
         }
+        return;
+    }
+
+    const controller = new AbortController();
+    captureAbortRef.current = controller;
+    setIsSequenceRunning(true);
+
+    // Resolved on the first shot so a sequence cancelled during its countdown leaves no empty session
+    let sessionId: string | null = null;
+    const getSessionId = async () => sessionId ?? (sessionId = await resolveCaptureSessionId());
+
+    try {
+        if (mode === 'timer3' || mode === 'timer10') {
+            await runCountdown(mode === 'timer3' ? 3 : 10, controller.signal);
+            await shootSingle(await getSessionId(), true);
+        } else if (mode === 'interval') {
+            for (let shot = 1; shot <= settings.intervalShots; shot++) {
+                setSequenceProgress({ current: shot, total: settings.intervalShots });
+                await runCountdown(settings.intervalSeconds, controller.signal);
+                await shootSingle(await getSessionId());
+            }
+        } else if (mode === 'burst') {
+            await shootBurst(await getSessionId(), controller.signal);
+        }
+    } catch (e) {
+        if (!isAbortError(e)) reportCaptureError(e);
+    } finally {
+        captureAbortRef.current = null;
+        setIsSequenceRunning(false);
+        setCountdown(null);
+        setSequenceProgress(null);
     }
   };
 
-  const downloadPhoto = (imgData: string) => {
-    const link = document.createElement('a');
-    link.href = imgData;
-    link.download = `pose-capture-${Date.now()}.jpg`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // --- VIDEO ---
+
+  const startRecording = async () => {
+    const video = videoRef.current;
+    if (!video?.videoWidth || !stream) return;
+    if (!isVideoRecordingSupported()) {
+        setError("此瀏覽器不支援錄影");
+        return;
+    }
+
+    // Sound is optional: without microphone access the clip is recorded silent
+    let audio: MediaStream | null = null;
+    try {
+        audio = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (e) {
+        console.warn("Microphone unavailable, recording without sound", e);
+    }
+
+    // Clips keep the whole frame, whatever the photo aspect
+    const mapping: FrameMapping = {
+        screenWidth: window.innerWidth,
+        screenHeight: window.innerHeight,
+        sourceWidth: video.videoWidth,
+        sourceHeight: video.videoHeight,
+        fit: previewFit,
+    };
+    const framing = { mapping, rect: { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight } };
+    const poseImage = poseImageRef.current;
+    const torchTrack = await enableTorch();
+
+    try {
+        recordingRef.current = await startVideoRecording({
+            video,
+            stream,
+            audio,
+            mirrored: facingMode === 'user',
+            guide: settings.recordGuide && activePose && poseImage
+                ? { image: poseImage, getTransform: () => poseTransformRef.current, mapping }
+                : null,
+        });
+    } catch (e) {
+        console.error("Failed to start recording", e);
+        audio?.getTracks().forEach(track => track.stop());
+        if (torchTrack) await disableTorch(torchTrack);
+        setError("此瀏覽器不支援錄影");
+        return;
+    }
+
+    // The stored guide position is the one at the first frame, which is also the poster
+    recordingContextRef.current = { audio, torchTrack, framing, pose: activePoseRef.current, transform: { ...poseTransformRef.current } };
+    setRecordingElapsed(0);
+    setIsRecordingPaused(false);
+    setIsRecording(true);
   };
 
-  const handleShare = async (base64Data: string) => {
+  const stopRecording = async () => {
+    const recording = recordingRef.current;
+    const context = recordingContextRef.current;
+    if (!recording || !context) return;
+    recordingRef.current = null;
+    recordingContextRef.current = null;
+    setIsRecording(false);
+    setIsRecordingPaused(false);
+
+    const clip = await recording.stop();
+    context.audio?.getTracks().forEach(track => track.stop());
+    if (context.torchTrack) await disableTorch(context.torchTrack);
+
     try {
-        const fetchRes = await fetch(base64Data);
-        const blob = await fetchRes.blob();
-        const file = new File([blob], `pose-guide-${Date.now()}.jpg`, { type: 'image/jpeg' });
+        const record = await saveVideoCapture(
+            clip.blob,
+            clip.poster,
+            await resolveCaptureSessionId(),
+            buildCaptureMetadata(context.framing, !!context.torchTrack, context),
+            { durationMs: clip.durationMs, mimeType: clip.mimeType },
+            context.pose
+        );
+        setGallery(prev => [...prev, record]);
+    } catch (e) {
+        console.error("Failed to save video", e);
+        setError(e instanceof StorageFullError
+          ? "儲存空間已滿，請刪除部分照片後再試"
+          : "影片儲存失敗，請重試");
+    }
+  };
 
-        if (navigator.canShare && navigator.canShare({ files: [file] })) {
-            await navigator.share({
-                files: [file],
-            });
-        } else {
-            downloadPhoto(base64Data);
-        }
+  const toggleRecordingPause = () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    if (isRecordingPaused) recording.resume();
+    else recording.pause();
+    setIsRecordingPaused(!isRecordingPaused);
+  };
+
+  // Moment capture keeps a rolling pre-shutter buffer, only while the viewfinder can actually shoot photos
+  const isMomentBuffering = settings.momentCapture && cameraMode === 'photo' && !!stream && !isGalleryOpen && !isRecording;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isMomentBuffering || !video) return;
+
+    const buffer = startFrameBuffer(video, {
+        windowMs: MOMENT_BUFFER_MS,
+        fps: MOMENT_BUFFER_FPS,
+        maxBytes: MOMENT_BUFFER_MAX_BYTES,
+        previewMaxEdge: MOMENT_PREVIEW_MAX_EDGE,
+    });
+    frameBufferRef.current = buffer;
+    return () => {
+        buffer.stop();
+        if (frameBufferRef.current === buffer) frameBufferRef.current = null;
+    };
+  }, [isMomentBuffering, stream]);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const id = window.setInterval(() => setRecordingElapsed(recordingRef.current?.getElapsedMs() ?? 0), 250);
+    return () => clearInterval(id);
+  }, [isRecording]);
+
+  const handleShutter = () => {
+    if (cameraMode === 'photo') capturePhoto();
+    else if (isRecording) stopRecording();
+    else startRecording();
+  };
+
+  // Reuse the current session unless it has gone quiet, in which case start a new one
+  const resolveCaptureSessionId = async () => {
+    const active = findActiveSession(sessions, gallery);
+    if (active) return active.id;
+
+    const session = createSession();
+    await saveSession(session);
+    setSessions(prev => [...prev, session]);
+    return session.id;
+  };
+
+  const handleShare = async (record: CaptureRecord) => {
+    const index = gallery.indexOf(record);
+    const files: File[] = [];
+    try {
+        const blob = await prepareCaptureForExport(record, settings);
+        files.push(new File([blob], captureFileName(record, index), { type: record.kind === 'video' ? record.mimeType ?? blob.type : 'image/jpeg' }));
+
+        // Optional transparent guide layer travels alongside the photo
+        const guideLayer = settings.includeGuideLayer ? await prepareGuideLayerForExport(record) : null;
+        if (guideLayer) files.push(new File([guideLayer], guideLayerFileName(record, index), { type: 'image/png' }));
+    } catch (e) {
+        console.error("Export failed", e);
+        setError("找不到這張照片");
+        return;
+    }
+
+    await shareOrDownload(files);
+  };
+
+  const handleSelectMomentFrame = async (record: CaptureRecord, index: number) => {
+    try {
+        const updated = await selectMomentFrame(record, index);
+        setGallery(prev => prev.map(r => r.id === updated.id ? updated : r));
+    } catch (e) {
+        console.error("Choosing moment frame failed", e);
+        setError("無法更換照片，請重試");
+    }
+  };
+
+  const handleSaveEdits = async (record: CaptureRecord, edits: PhotoEdits | null) => {
+    try {
+        const updated = await updateCaptureEdits(record, edits);
+        setGallery(prev => prev.map(r => r.id === updated.id ? updated : r));
+        setIsEditorOpen(false);
+    } catch (e) {
+        console.error("Saving edits failed", e);
+        setError(e instanceof StorageFullError ? "儲存空間已滿，請刪除部分照片後再試" : "編輯儲存失敗，請重試");
+    }
+  };
+
+  const closeReview = () => {
+    setSelectedCaptureId(null);
+    setIsInfoOpen(false);
+    setIsCompareOpen(false);
+    setIsEditorOpen(false);
+  };
+
+  // --- GALLERY SESSIONS ---
+
+  const handleCreateSession = async () => {
+    const session = createSession();
+    try {
+        await saveSession(session);
+    } catch (e) {
+        console.error("Create session failed", e);
+        setError("無法建立新場次");
+        return;
+    }
+    setSessions(prev => [...prev, session]);
+    setGallerySessionFilter(session.id);
+  };
+
+  const handleRenameSession = async (sessionId: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    const name = session && window.prompt("場次名稱", session.name)?.trim();
+    if (!session || !name) return;
+
+    const renamed = { ...session, name };
+    try {
+        await saveSession(renamed);
+    } catch (e) {
+        console.error("Rename session failed", e);
+        setError("重新命名失敗，請重試");
+        return;
+    }
+    setSessions(prev => prev.map(s => s.id === sessionId ? renamed : s));
+  };
+
+  const handleMergeSessions = async (sourceId: string, targetId: string) => {
+    try {
+        await mergeSessions(sourceId, targetId);
+    } catch (e) {
+        console.error("Merge sessions failed", e);
+        setError("合併失敗，請重試");
+        return;
+    }
+    setGallery(prev => prev.map(r => r.sessionId === sourceId ? { ...r, sessionId: targetId } : r));
+    setSessions(prev => prev.filter(s => s.id !== sourceId));
+    setGallerySessionFilter(targetId);
+  };
+
+  const handleDeleteSession = async (sessionId: string) => {
+    const count = gallery.filter(r => r.sessionId === sessionId).length;
+    if (!window.confirm(`確定要刪除此場次及其中 ${count} 張照片？`)) return;
+
+    try {
+        await deleteSession(sessionId);
+    } catch (e) {
+        console.error("Delete session failed", e);
+        setError("刪除失敗，請重試");
+        return;
+    }
+    setGallery(prev => prev.filter(r => r.sessionId !== sessionId));
+    setSessions(prev => prev.filter(s => s.id !== sessionId));
+    setGallerySessionFilter(null);
+  };
+
+  // --- GALLERY SELECTION ---
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const toggleSelected = (ids: string[]) => {
+    setSelectedIds(prev => {
+        const next = new Set(prev);
+        const allSelected = ids.every(id => next.has(id));
+        ids.forEach(id => allSelected ? next.delete(id) : next.add(id));
+        return next;
+    });
+  };
+
+  const handleExportSelection = async () => {
+    const records = gallery.filter(r => selectedIds.has(r.id));
+    if (records.length === 0 || isExporting) return;
+
+    setIsExporting(true);
+    try {
+        const zip = await exportCapturesZip(records, settings);
+        const file = new File([zip], `pose-captures-${formatFileTimestamp(Date.now())}.zip`, { type: 'application/zip' });
+        await shareOrDownload(file);
+        exitSelection();
     } catch (e) {
-        console.error("Share failed", e);
-        downloadPhoto(base64Data);
+        console.error("Export failed", e);
+        setError("匯出失敗，請減少選取數量後再試");
+    } finally {
+        setIsExporting(false);
     }
   };
+
+  const handleDeleteSelection = async () => {
+    const ids = [...selectedIds];
+    if (ids.length === 0 || !window.confirm(`確定要刪除 ${ids.length} 張照片？`)) return;
+
+    try {
+        await deleteCaptures(ids);
+    } catch (e) {
+        console.error("Bulk delete failed", e);
+        setError("刪除失敗，請重試");
+        return;
+    }
+    setGallery(prev => prev.filter(r => !selectedIds.has(r.id)));
+    exitSelection();
+  };
   
-  const deletePhoto = (index: number) => {
-    const newGallery = [...gallery];
-    newGallery.splice(index, 1);
+  // Keep one frame of a burst and delete the rest
+  const handleKeepBurstFrame = async (burstId: string, keep: CaptureRecord) => {
+    const discardIds = gallery.filter(r => r.burstId === burstId && r.id !== keep.id).map(r => r.id);
+    try {
+        await deleteCaptures(discardIds);
+    } catch (e) {
+        console.error("Burst cleanup failed", e);
+        setError("刪除失敗，請重試");
+        return;
+    }
+    setGallery(prev => prev.filter(r => !discardIds.includes(r.id)));
+    setBurstPickerId(null);
+  };
+
+  // `pageable` is the filtered list review pages through, so the next photo shown is one the user can see
+  const deletePhoto = async (record: CaptureRecord, pageable: CaptureRecord[]) => {
+    try {
+        await deleteCapture(record.id);
+    } catch (e) {
+        console.error("Delete failed", e);
+        setError("刪除失敗，請重試");
+        return;
+    }
+
+    const newGallery = gallery.filter(r => r.id !== record.id);
     setGallery(newGallery);
-    if (newGallery.length === 0) {
-        setSelectedImageIndex(null);
-        setIsGalleryOpen(false);
-    } else if (selectedImageIndex !== null) {
-        // Adjust index if needed
-        setSelectedImageIndex(Math.min(selectedImageIndex, newGallery.length - 1));
+    const index = pageable.findIndex(r => r.id === record.id);
+    const neighbour = pageable[index + 1] ?? pageable[index - 1];
+    if (neighbour) {
+        setSelectedCaptureId(neighbour.id);
+    } else {
+        closeReview();
+        if (newGallery.length === 0) setIsGalleryOpen(false);
+    }
+  };
+
+  const handleSelectPose = (pose: Pose) => {
+    setActivePose(pose);
+    setPoseTransform(pose.defaultTransform ?? INITIAL_TRANSFORM);
+    setPoseLibrary(prev => ({ ...prev, recents: addRecentPose(prev.recents, pose.id) }));
+  };
+
+  const handleImportPoses = async (files: File[]) => {
+    setIsImportingPoses(true);
+    setPoseLibraryError(null);
+    try {
+        const imported: Pose[] = [];
+        const packProblems: string[] = [];
+        let failed = 0;
+        for (const file of files) {
+            try {
+                if (isPosePackFile(file)) {
+                    // Later packs in the same drop also see the earlier ones' ids
+                    const { poses, skipped } = await readPosePackFile(file, [...imported, ...customPoses, ...POSES]);
+                    imported.push(...poses);
+                    if (skipped > 0) packProblems.push(`${file.name}：已略過 ${skipped} 個已在姿勢庫中的姿勢`);
+                } else {
+                    imported.push(await importPoseFile(file));
+                }
+            } catch (e) {
+                console.warn(`Could not import ${file.name}`, e);
+                if (e instanceof PosePackError) {
+                    packProblems.push(`${file.name}：${e.message}`);
+                } else {
+                    failed++;
+                }
+            }
+        }
+
+        if (imported.length > 0) {
+            await saveCustomPoses(imported);
+            setCustomPoses(prev => [...imported.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0)), ...prev]); // Newest first, like the store
+        }
+        const problems = [
+            ...packProblems,
+            ...(failed > 0 ? [`${failed} 個檔案無法匯入，請使用 5MB 以內的 SVG 或透明 PNG（SVG 需為未套用 transform 的路徑）`] : []),
+        ];
+        if (problems.length > 0) {
+            setPoseLibraryError(problems.join('\n'));
+        }
+    } catch (e) {
+        console.error("Saving imported poses failed", e);
+        setPoseLibraryError(e instanceof StorageFullError ? "儲存空間不足，無法匯入姿勢" : "匯入姿勢失敗");
+    } finally {
+        setIsImportingPoses(false);
+    }
+  };
+
+  const handleExportPoses = async (poses: Pose[], meta: { name: string; author?: string }) => {
+    const pack = createPosePack(poses, meta);
+    if (pack.poses.length === 0) {
+        setPoseLibraryError("選取的姿勢無法匯出");
+        return;
+    }
+    const file = new File([JSON.stringify(pack)], posePackFileName(meta.name), { type: 'application/json' });
+    await shareOrDownload(file);
+  };
+
+  const handleDeletePose = async (pose: Pose) => {
+    try {
+        await deleteCustomPose(pose.id);
+        setCustomPoses(prev => prev.filter(p => p.id !== pose.id));
+        setPoseLibrary(prev => ({
+            favorites: prev.favorites.filter(id => id !== pose.id),
+            recents: prev.recents.filter(id => id !== pose.id),
+        }));
+        if (activePose?.id === pose.id) handleClearPose(); // Otherwise it stays on screen and in new captures
+    } catch (e) {
+        console.error("Deleting pose failed", e);
+        setPoseLibraryError("刪除姿勢失敗");
+    }
+  };
+
+  // A library copy of a history entry, under the same id so the two stay linked
+  const handleSaveAIPose = async (record: AIPoseRecord) => {
+    const pose: Pose = { ...record.pose, tags: ['AI'], createdAt: Date.now() };
+    try {
+        await saveCustomPoses([pose]);
+        setCustomPoses(prev => [pose, ...prev]);
+    } catch (e) {
+        console.error("Saving AI pose to library failed", e);
+        setPoseLibraryError(e instanceof StorageFullError ? "儲存空間不足，無法存到姿勢庫" : "存到姿勢庫失敗");
+    }
+  };
+
+  // Edits never overwrite the original: the new skeleton becomes its own library pose. The outline
+  // is left behind since it no longer matches the figure.
+  const handleSaveEditedPose = async (skeleton: PoseSkeleton, name: string) => {
+    if (!editingPose) return;
+    const pose: Pose = {
+        id: createCustomPoseId(),
+        name,
+        category: editingPose.category,
+        tags: [...(editingPose.tags ?? []).filter(t => t !== '編輯'), '編輯'],
+        viewBox: editingPose.viewBox,
+        skeleton,
+        defaultTransform: editingPose.defaultTransform,
+        createdAt: Date.now(),
+    };
+    try {
+        await saveCustomPoses([pose]);
+        setCustomPoses(prev => [pose, ...prev]);
+        setEditingPose(null);
+        setPoseLibraryError(null);
+    } catch (e) {
+        console.error("Saving edited pose failed", e);
+        setPoseLibraryError(e instanceof StorageFullError ? "儲存空間不足，無法儲存姿勢" : "儲存姿勢失敗");
+    }
+  };
+
+  const handleTraceCapture = async (record: CaptureRecord) => {
+    try {
+        const blob = await getCaptureBlob(record.id);
+        if (!blob) throw new Error('Missing capture');
+        setPoseLibraryError(null);
+        setTraceSource({ blob, name: '描圖姿勢' });
+    } catch (e) {
+        console.error("Opening photo for tracing failed", e);
+        setError("無法讀取這張照片");
+    }
+  };
+
+  const handleSaveTracedPose = async (imageUrl: string, name: string) => {
+    const pose: Pose = { id: createCustomPoseId(), name, tags: ['描圖'], imageUrl, createdAt: Date.now() };
+    try {
+        await saveCustomPoses([pose]);
+        setCustomPoses(prev => [pose, ...prev]);
+        setTraceSource(null);
+        setPoseLibraryError(null);
+    } catch (e) {
+        console.error("Saving traced pose failed", e);
+        setPoseLibraryError(e instanceof StorageFullError ? "儲存空間不足，無法儲存姿勢" : "儲存姿勢失敗");
+    }
+  };
+
+  const handleRenameAIPose = async (record: AIPoseRecord) => {
+    const name = window.prompt("姿勢名稱", record.pose.name)?.trim();
+    if (!name) return;
+
+    const renamed = { ...record, pose: { ...record.pose, name } };
+    const libraryPose = customPoses.find(p => p.id === record.id);
+    try {
+        await updateAIPose(renamed);
+        if (libraryPose) await saveCustomPoses([{ ...libraryPose, name }]);
+    } catch (e) {
+        console.error("Rename AI pose failed", e);
+        setPoseLibraryError("重新命名失敗");
+        return;
+    }
+    setAIPoseHistory(prev => prev.map(r => r.id === record.id ? renamed : r));
+    setCustomPoses(prev => prev.map(p => p.id === record.id ? { ...p, name } : p));
+    setActivePose(prev => prev?.id === record.id ? { ...prev, name } : prev);
+  };
+
+  const handleDeleteAIPose = async (record: AIPoseRecord) => {
+    if (!window.confirm("確定要刪除這筆 AI 紀錄？已存到姿勢庫的副本會保留")) return;
+    try {
+        await deleteAIPose(record.id);
+        setAIPoseHistory(prev => prev.filter(r => r.id !== record.id));
+    } catch (e) {
+        console.error("Delete AI pose failed", e);
+        setPoseLibraryError("刪除紀錄失敗");
     }
   };
 
@@ -489,31 +1462,13 @@ export default function App() {
                              const currentPoseImage = poseImageRef.current;
 
                              if (currentPoseImage) {
-                                 const screenW = window.innerWidth;
-                                 const screenH = window.innerHeight;
-                                 const videoW = video.videoWidth;
-                                 const videoH = video.videoHeight;
-                                 
-                                 const scaleX = screenW / videoW;
-                                 const scaleY = screenH / videoH;
-                                 const scaleCover = Math.max(scaleX, scaleY); 
-                                 
-                                 const canvasScaleFactor = canvas.width / videoW; 
-                                 
-                                 ctx.save();
-                                 ctx.translate(canvas.width / 2, canvas.height / 2);
-                                 
-                                 const conversionRatio = (1 / scaleCover) * canvasScaleFactor;
-
-                                 ctx.translate(currentPoseTransform.x * conversionRatio, currentPoseTransform.y * conversionRatio);
-                                 ctx.rotate(currentPoseTransform.rotation * Math.PI / 180);
-                                 ctx.scale(currentPoseTransform.scale, currentPoseTransform.scale);
-                                 
-                                 const drawW = screenW * conversionRatio;
-                                 const drawH = screenH * conversionRatio;
-                                 
-                                 ctx.drawImage(currentPoseImage, -drawW/2, -drawH/2, drawW, drawH);
-                                 ctx.restore();
+                                 drawPoseGuide(ctx, currentPoseImage, currentPoseTransform, {
+                                     screenWidth: window.innerWidth,
+                                     screenHeight: window.innerHeight,
+                                     sourceWidth: video.videoWidth,
+                                     sourceHeight: video.videoHeight,
+                                     fit: previewFitRef.current,
+                                 });
                              }
 
                              // 4. DRAW VISUAL MARKERS (L/R) FOR AI (CORRECTED)
@@ -637,6 +1592,7 @@ export default function App() {
         }
         ctx.drawImage(video, 0, 0);
         const base64Data = canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
+        const referenceFrame = await canvasToBlob(canvas, 'image/jpeg', 0.8);
 
         // 2. Call Gemini
         const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
@@ -689,6 +1645,18 @@ export default function App() {
             };
             setActivePose(newPose);
             setPoseTransform(INITIAL_TRANSFORM); // Reset transform for new pose
+
+            // 5. Keep it in the history so clearing or regenerating doesn't lose it
+            try {
+                const record = await saveAIPose(newPose, referenceFrame);
+                setAIPoseHistory(prev => [record, ...prev]);
+            } catch (e) {
+                // The guide is still usable, but it will be gone once cleared or replaced
+                console.error("Saving AI pose to history failed", e);
+                setError(e instanceof StorageFullError
+                  ? "儲存空間已滿，這個 AI 姿勢沒有存進紀錄，請刪除部分照片後再生成"
+                  : "AI 姿勢沒有存進紀錄，清除或更換後將無法找回");
+            }
         } else {
           setError("AI 沒有回傳圖片，請重試");
           setTimeout(() => setError(null), 3000);
@@ -708,46 +1676,112 @@ export default function App() {
   const renderGallery = () => {
     if (!isGalleryOpen) return null;
 
-    if (selectedImageIndex !== null) {
+    // Distinct poses present in the gallery, for the filter chips
+    const galleryPoses = new Map<string, string>();
+    gallery.forEach(r => { if (r.pose) galleryPoses.set(r.pose.id, r.pose.name); });
+    const hasUnposedCaptures = gallery.some(r => !r.pose);
+    const visibleGallery = gallery.filter(r =>
+        (galleryPoseFilter === null || (r.pose?.id ?? NO_POSE_FILTER) === galleryPoseFilter) &&
+        (gallerySessionFilter === null || r.sessionId === gallerySessionFilter)
+    );
+
+    const sessionGroups = groupCapturesBySession(gallery, sessions);
+    const visibleGroups = groupCapturesBySession(visibleGallery, sessions)
+        .filter(g => g.records.length > 0)
+        .reverse(); // Newest session first
+
+    // Review pages through photos in the same order the grid shows them
+    const pageableGallery = visibleGroups.flatMap(g => g.records);
+
+    const selectedRecord = pageableGallery.find(r => r.id === selectedCaptureId);
+    if (selectedRecord) {
+
         // REVIEW MODE (Single Image)
         return (
-            <div className="fixed inset-0 z-[100] bg-black flex flex-col animate-fade-in touch-none">
-                 {/* Main Image Container */}
-                 <div className="absolute inset-0 flex items-center justify-center bg-black">
-                    <img 
-                        src={gallery[selectedImageIndex]} 
-                        alt="Review" 
-                        className="w-full h-full object-contain" 
+            <div className="fixed inset-0 z-[100] flex flex-col animate-fade-in touch-none">
+                 {/* Gesture Viewer: swipe to page, pinch / double tap to zoom, swipe down to close */}
+                 <PhotoViewer
+                    records={pageableGallery}
+                    index={pageableGallery.indexOf(selectedRecord)}
+                    onIndexChange={(i) => setSelectedCaptureId(pageableGallery[i].id)}
+                    onDismiss={closeReview}
+                 />
+
+                 {/* Moment Frames: scrub the pre-shutter buffer to pick a better frame */}
+                 {selectedRecord.momentFrames && selectedRecord.momentFrames > 1 && (
+                    <MomentScrubber
+                        record={selectedRecord}
+                        onSelect={(index) => handleSelectMomentFrame(selectedRecord, index)}
                     />
-                 </div>
+                 )}
 
                  {/* Top Navigation - Floating Glass Pill */}
                  <div className="absolute top-0 left-0 right-0 p-6 pt-12 flex justify-between items-start pointer-events-none">
                     <button 
-                        onClick={() => setSelectedImageIndex(null)} 
+                        onClick={closeReview} 
                         className="pointer-events-auto w-12 h-12 rounded-full bg-black/30 backdrop-blur-xl border border-white/10 flex items-center justify-center text-white/90 active:scale-90 transition-all shadow-lg"
                     >
                         <ChevronLeft className="w-6 h-6" />
                     </button>
+                    <button 
+                        onClick={() => setIsInfoOpen(true)} 
+                        className="pointer-events-auto w-12 h-12 rounded-full bg-black/30 backdrop-blur-xl border border-white/10 flex items-center justify-center text-white/90 active:scale-90 transition-all shadow-lg"
+                    >
+                        <Info className="w-5 h-5" />
+                    </button>
                  </div>
 
+                 {/* Compare With Guide */}
+                 {selectedRecord.kind === 'photo' && selectedRecord.pose && selectedRecord.poseTransform && (
+                    <div className="absolute top-12 left-0 right-0 flex justify-center pointer-events-none">
+                        <button
+                            onClick={() => setIsCompareOpen(true)}
+                            className="pointer-events-auto h-12 px-5 rounded-full bg-black/30 backdrop-blur-xl border border-white/10 flex items-center gap-2 text-white/90 active:scale-95 transition-all shadow-lg"
+                        >
+                            <Layers className="w-4 h-4" />
+                            <span className="text-xs font-bold tracking-widest">對照線框</span>
+                        </button>
+                    </div>
+                 )}
+
                  {/* Bottom Actions - Floating Glass Dock */}
                  <div className="absolute bottom-10 left-6 right-6 z-20 pointer-events-none">
                     <div className="pointer-events-auto bg-black/60 backdrop-blur-2xl border border-white/10 rounded-3xl p-2.5 flex items-center justify-between shadow-2xl ring-1 ring-white/5">
                         
                         {/* Delete Button */}
                         <button 
-                            onClick={() => deletePhoto(selectedImageIndex)} 
+                            onClick={() => deletePhoto(selectedRecord, pageableGallery)} 
                             className="w-16 h-16 rounded-2xl flex items-center justify-center text-red-400 hover:bg-white/5 active:scale-90 transition-all"
                         >
                             <Trash2 className="w-6 h-6" />
                         </button>
 
+                        {/* Edit Button (photos only) */}
+                        {selectedRecord.kind === 'photo' && (
+                            <button 
+                                onClick={() => setIsEditorOpen(true)} 
+                                className="w-16 h-16 rounded-2xl flex items-center justify-center text-white/90 hover:bg-white/5 active:scale-90 transition-all"
+                            >
+                                <Wand2 className="w-6 h-6" />
+                            </button>
+                        )}
+
+                        {/* Trace As Pose Button (photos only) */}
+                        {selectedRecord.kind === 'photo' && (
+                            <button 
+                                onClick={() => handleTraceCapture(selectedRecord)} 
+                                className="w-16 h-16 rounded-2xl flex items-center justify-center text-white/90 hover:bg-white/5 active:scale-90 transition-all"
+                                aria-label="Trace As Pose"
+                            >
+                                <ScanLine className="w-6 h-6" />
+                            </button>
+                        )}
+
                         <div className="w-[1px] h-8 bg-white/10 mx-2"></div>
 
                         {/* Save / Share Button */}
                         <button 
-                            onClick={() => handleShare(gallery[selectedImageIndex])}
+                            onClick={() => handleShare(selectedRecord)}
                             className="flex-1 h-16 bg-white text-black rounded-2xl font-bold flex items-center justify-center gap-3 active:scale-95 transition-transform shadow-lg"
                         >
                             <Share2 className="w-5 h-5" />
@@ -755,10 +1789,40 @@ export default function App() {
                         </button>
                     </div>
                  </div>
+
+                 {isInfoOpen && (
+                    <CaptureInfoSheet record={selectedRecord} onClose={() => setIsInfoOpen(false)} />
+                 )}
+
+                 {isCompareOpen && (
+                    <CompareView record={selectedRecord} onClose={() => setIsCompareOpen(false)} />
+                 )}
+
+                 {isEditorOpen && (
+                    <PhotoEditor
+                        record={selectedRecord}
+                        onSave={(edits) => handleSaveEdits(selectedRecord, edits)}
+                        onClose={() => setIsEditorOpen(false)}
+                    />
+                 )}
             </div>
         );
     }
 
+    const renderFilterChip = (key: string | null, label: string) => (
+        <button
+            key={key ?? 'all'}
+            onClick={() => setGalleryPoseFilter(key)}
+            className={`flex-shrink-0 px-4 py-1.5 rounded-full text-xs font-bold tracking-wider border transition-all ${
+                galleryPoseFilter === key
+                    ? 'bg-white text-black border-white'
+                    : 'bg-white/5 text-white/70 border-white/10 active:bg-white/20'
+            }`}
+        >
+            {label}
+        </button>
+    );
+
     // GRID MODE
     return (
         <div className="fixed inset-0 z-[100] bg-zinc-950/90 backdrop-blur-3xl animate-fade-in flex flex-col">
@@ -767,43 +1831,186 @@ export default function App() {
                 <div className="flex flex-col">
                     <h1 className="text-3xl font-light text-white tracking-tight">Gallery</h1>
                     <span className="text-[10px] font-bold text-white/40 tracking-[0.2em] mt-1 uppercase">
-                        {gallery.length} Images
+                        {sessions.length} Sessions · {gallery.length} Images · {(gallery.reduce((sum, r) => sum + r.byteSize, 0) / (1024 * 1024)).toFixed(1)} MB
                     </span>
                 </div>
-                <button 
-                    onClick={() => setIsGalleryOpen(false)} 
-                    className="w-10 h-10 rounded-full bg-white/5 backdrop-blur-md border border-white/10 flex items-center justify-center active:bg-white/20 transition-all text-white/70"
-                >
-                    <X className="w-5 h-5" />
-                </button>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setIsSettingsOpen(true)}
+                        className="w-10 h-10 rounded-full bg-white/5 backdrop-blur-md border border-white/10 flex items-center justify-center active:bg-white/20 transition-all text-white/70"
+                    >
+                        <Settings className="w-5 h-5" />
+                    </button>
+                    {gallery.length > 0 && (
+                        <button
+                            onClick={() => isSelecting ? exitSelection() : setIsSelecting(true)}
+                            className="h-10 px-4 rounded-full bg-white/5 backdrop-blur-md border border-white/10 text-xs font-bold tracking-wider text-white/80 active:bg-white/20 transition-all"
+                        >
+                            {isSelecting ? '取消' : '選取'}
+                        </button>
+                    )}
+                    <button 
+                        onClick={() => { exitSelection(); setIsGalleryOpen(false); }} 
+                        className="w-10 h-10 rounded-full bg-white/5 backdrop-blur-md border border-white/10 flex items-center justify-center active:bg-white/20 transition-all text-white/70"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
             </div>
 
-            {/* Scrollable Grid */}
-            <div className="flex-1 overflow-y-auto p-4 pb-32">
-                <div className="grid grid-cols-3 gap-3">
-                    {gallery.map((img, idx) => (
-                        <div 
-                            key={idx} 
-                            onClick={() => setSelectedImageIndex(idx)}
-                            className="aspect-[9/16] bg-gray-900 rounded-xl overflow-hidden border border-white/10 cursor-pointer active:scale-95 transition-all shadow-lg relative group"
-                        >
-                            <img src={img} alt={`Capture ${idx}`} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
-                            <div className="absolute inset-0 bg-gradient-to-t from-black/50 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
-                        </div>
-                    ))}
+            {/* Session Browser */}
+            <SessionBrowser
+                groups={sessionGroups}
+                selectedSessionId={gallerySessionFilter}
+                onSelect={setGallerySessionFilter}
+                onCreate={handleCreateSession}
+                onRename={handleRenameSession}
+                onMerge={handleMergeSessions}
+                onDelete={handleDeleteSession}
+            />
+
+            {/* Pose Filter */}
+            {galleryPoses.size > 0 && (
+                <div className="flex overflow-x-auto no-scrollbar gap-2 px-4 py-3 border-b border-white/5">
+                    {renderFilterChip(null, '全部')}
+                    {Array.from(galleryPoses, ([id, name]) => renderFilterChip(id, name))}
+                    {hasUnposedCaptures && renderFilterChip(NO_POSE_FILTER, '無姿勢')}
                 </div>
+            )}
+
+            {/* Scrollable Grid, grouped by session */}
+            <div className="flex-1 overflow-y-auto p-4 pb-32">
+                {visibleGroups.map(({ session, records }) => {
+                    const ids = records.map(r => r.id);
+                    const isSessionSelected = ids.every(id => selectedIds.has(id));
+
+                    // Frames of one burst share a single tile
+                    const tiles: CaptureRecord[][] = [];
+                    const burstTiles = new Map<string, CaptureRecord[]>();
+                    records.forEach(r => {
+                        const burst = r.burstId ? burstTiles.get(r.burstId) : undefined;
+                        if (burst) {
+                            burst.push(r);
+                            return;
+                        }
+                        const tile = [r];
+                        if (r.burstId) burstTiles.set(r.burstId, tile);
+                        tiles.push(tile);
+                    });
+
+                    return (
+                        <section key={session.id} className="mb-6">
+                            {/* Session Header */}
+                            <div className="flex items-end justify-between mb-3 px-1">
+                                <div className="flex flex-col min-w-0">
+                                    <h2 className="text-base font-medium text-white truncate">{session.name}</h2>
+                                    <span className="text-[10px] font-bold text-white/40 tracking-[0.15em] uppercase">
+                                        {new Date(session.createdAt).toLocaleDateString('zh-TW')} · {records.length} Images
+                                    </span>
+                                </div>
+                                {isSelecting && (
+                                    <button
+                                        onClick={() => toggleSelected(ids)}
+                                        className={`flex-shrink-0 px-3 py-1 rounded-full text-[11px] font-bold border transition-all ${
+                                            isSessionSelected ? 'bg-yellow-400 text-black border-yellow-400' : 'bg-white/5 text-white/70 border-white/10'
+                                        }`}
+                                    >
+                                        {isSessionSelected ? '取消本場次' : '選取本場次'}
+                                    </button>
+                                )}
+                            </div>
+
+                            <div className="grid grid-cols-3 gap-3">
+                                {tiles.map((tile, idx) => {
+                                    const record = tile[0];
+                                    const tileIds = tile.map(r => r.id);
+                                    const isTileSelected = tileIds.every(id => selectedIds.has(id));
+
+                                    return (
+                                        <div 
+                                            key={record.id} 
+                                            onClick={() => {
+                                                if (isSelecting) toggleSelected(tileIds);
+                                                else if (tile.length > 1) setBurstPickerId(record.burstId!);
+                                                else setSelectedCaptureId(record.id);
+                                            }}
+                                            className={`aspect-[9/16] bg-gray-900 rounded-xl overflow-hidden border cursor-pointer active:scale-95 transition-all shadow-lg relative group ${
+                                                isTileSelected ? 'border-yellow-400 ring-2 ring-yellow-400' : 'border-white/10'
+                                            }`}
+                                        >
+                                            <StoredImage captureId={record.id} lazy alt={`Capture ${idx}`} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
+                                            <div className="absolute inset-0 bg-gradient-to-t from-black/50 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
+                                            {tile.length > 1 && (
+                                                <div className="absolute bottom-2 left-2 flex items-center gap-1 px-2 py-0.5 rounded-full bg-black/60 backdrop-blur-md text-[10px] font-bold text-white">
+                                                    <GalleryHorizontalEnd className="w-3 h-3" /> {tile.length}
+                                                </div>
+                                            )}
+                                            {record.kind === 'video' && (
+                                                <div className="absolute bottom-2 left-2 flex items-center gap-1 px-2 py-0.5 rounded-full bg-black/60 backdrop-blur-md text-[10px] font-bold text-white tabular-nums">
+                                                    <Video className="w-3 h-3" /> {formatDuration(record.durationMs ?? 0)}
+                                                </div>
+                                            )}
+                                            {isSelecting && (
+                                                <div className="absolute top-2 right-2">
+                                                    {isTileSelected
+                                                        ? <CheckCircle2 className="w-6 h-6 text-yellow-400 fill-black/50" />
+                                                        : <Circle className="w-6 h-6 text-white/70" />}
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </section>
+                    );
+                })}
                 
-                {gallery.length === 0 && (
+                {visibleGallery.length === 0 && (
                     <div className="flex flex-col items-center justify-center h-64 text-white/30 gap-4">
                         <Images className="w-12 h-12 opacity-50" />
                         <p className="text-sm font-medium tracking-wider">No Images</p>
                     </div>
                 )}
             </div>
+
+            {isSelecting && (
+                <SelectionBar
+                    selectedCount={selectedIds.size}
+                    totalCount={visibleGallery.length}
+                    isExporting={isExporting}
+                    onToggleAll={() => toggleSelected(visibleGallery.map(r => r.id))}
+                    onExport={handleExportSelection}
+                    onDelete={handleDeleteSelection}
+                />
+            )}
+
+            {burstPickerId && (
+                <BurstPicker
+                    frames={gallery.filter(r => r.burstId === burstPickerId)}
+                    onKeep={(keep) => handleKeepBurstFrame(burstPickerId, keep)}
+                    onOpen={(record) => { setBurstPickerId(null); setSelectedCaptureId(record.id); }}
+                    onClose={() => setBurstPickerId(null)}
+                />
+            )}
         </div>
     );
   };
 
+  // Screen rect of the capture frame; nothing to mask when the photo keeps the whole visible preview, or for clips
+  const getViewfinderFrame = (): FrameRect | null => {
+    if (!videoSize || !videoSize.width || cameraMode === 'video' || settings.captureAspect === 'viewport' || settings.captureAspect === 'full') return null;
+    const mapping: FrameMapping = {
+      screenWidth: window.innerWidth,
+      screenHeight: window.innerHeight,
+      sourceWidth: videoSize.width,
+      sourceHeight: videoSize.height,
+      fit: previewFit,
+    };
+    const ratio = CAPTURE_ASPECTS.find(a => a.id === settings.captureAspect)?.ratio ?? null;
+    return sourceRectToScreen(getCaptureRect(mapping, ratio), mapping);
+  };
+  const viewfinderFrame = getViewfinderFrame();
+
   return (
     <div className="relative w-full h-full bg-black overflow-hidden select-none">
       
@@ -813,22 +2020,63 @@ export default function App() {
         autoPlay
         playsInline
         muted
-        className={`absolute inset-0 w-full h-full object-cover transition-transform duration-500 ${facingMode === 'user' ? 'scale-x-[-1]' : ''}`}
+        onLoadedMetadata={(e) => setVideoSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })}
+        onResize={(e) => setVideoSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })}
+        className={`absolute inset-0 w-full h-full ${previewFit === 'contain' ? 'object-contain' : 'object-cover'} transition-transform duration-500 ${facingMode === 'user' ? 'scale-x-[-1]' : ''}`}
+      />
+
+      {/* 2. Composition Aids (below the pose overlay so they never take its touches) */}
+      <CompositionOverlay grid={settings.compositionGrid} frame={viewfinderFrame} />
+      {settings.showLevel && hasOrientationAccess && <LevelIndicator />}
+
+      {/* Camera Gestures: tap to focus, long press AE/AF lock, vertical drag exposure */}
+      <FocusLayer
+        canFocus={canFocusAtPoint(cameraSupport)}
+        canLock={canLockFocusExposure(cameraSupport)}
+        exposureRange={cameraSupport?.exposureCompensation ?? null}
+        exposure={exposureCompensation}
+        isLocked={isFocusLocked}
+        onFocus={handleFocusAt}
+        onExposureChange={handleExposureChange}
       />
 
-      {/* 2. Pose Overlay Layer (Interactive) */}
+      {/* 3. Pose Overlay Layer (Interactive, claims touches on the guide only) */}
       <WireframeOverlay 
         pose={activePose} 
         containerWidth={window.innerWidth} 
         containerHeight={window.innerHeight}
         transform={poseTransform}
         onTransformChange={setPoseTransform}
+        skeletonLineWeight={settings.skeletonLineWeight}
       />
 
-      {/* 3. UI Layer */}
+      {/* Capture Frame Mask (what the saved photo will contain) */}
+      {viewfinderFrame && <ViewfinderMask frame={viewfinderFrame} />}
+
+      {/* Camera Opening / Failure with a retry action */}
+      <CameraStatusOverlay camera={camera} onRetry={retryCamera} />
+
+      {/* 4. UI Layer */}
       
       {/* Visual Flash Effect */}
       <div className={`absolute inset-0 bg-white pointer-events-none transition-opacity duration-150 z-50 ${isFlashing ? 'opacity-100' : 'opacity-0'}`} />
+
+      {/* Night Mode: hold still while frames are stacked */}
+      {nightProgress !== null && <NightCaptureProgress progress={nightProgress} />}
+
+      {/* Countdown / Sequence Progress */}
+      {countdown !== null && (
+        <div className="absolute inset-0 z-40 flex items-center justify-center pointer-events-none">
+            <span key={countdown} className="text-white text-[9rem] font-extralight drop-shadow-2xl animate-fade-in">{countdown}</span>
+        </div>
+      )}
+      {sequenceProgress && (
+        <div className="absolute top-32 left-0 right-0 z-40 flex justify-center pointer-events-none">
+            <div className="px-4 py-1.5 rounded-full bg-black/50 backdrop-blur-md border border-white/10 text-white text-xs font-bold tracking-widest">
+                {sequenceProgress.current} / {sequenceProgress.total}
+            </div>
+        </div>
+      )}
       
       {/* SPLASH SCREEN */}
       <div 
@@ -847,8 +2095,20 @@ export default function App() {
       <TopControls 
         onFlipCamera={toggleCamera} 
         isFrontFacing={facingMode === 'user'} 
-        flashEnabled={flashEnabled}
-        toggleFlash={() => setFlashEnabled(!flashEnabled)}
+        captureAspectLabel={CAPTURE_ASPECTS.find(a => a.id === settings.captureAspect)?.label ?? ''}
+        onCycleAspect={cycleCaptureAspect}
+        gridLabel={settings.compositionGrid === 'none' ? null : COMPOSITION_GRIDS.find(g => g.id === settings.compositionGrid)?.label ?? null}
+        onCycleGrid={cycleCompositionGrid}
+        isLevelActive={settings.showLevel && hasOrientationAccess}
+        onToggleLevel={toggleLevel}
+        cameraDevices={cameraDevices}
+        activeDeviceId={activeDeviceId}
+        onSelectDevice={selectCameraDevice}
+        isCameraLocked={isRecording}
+        flashMode={flashMode}
+        onCycleFlash={() => setFlashMode(FLASH_MODES[(FLASH_MODES.indexOf(flashMode) + 1) % FLASH_MODES.length])}
+        isNightMode={isNightMode}
+        onToggleNightMode={() => setIsNightMode(!isNightMode)}
         hasActivePose={!!activePose}
         onClearPose={handleClearPose}
         isLiveCoaching={isLiveCoaching}
@@ -893,11 +2153,13 @@ export default function App() {
 
       {/* Zoom Slider */}
       <ZoomSlider 
-        zoomLevel={zoomLevel} 
-        onZoomChange={handleZoomChange}
-        minZoom={zoomCapabilities?.min || 1}
-        maxZoom={zoomCapabilities?.max || 1}
-        hasZoom={!!zoomCapabilities}
+        zoomLevel={(zoomCapabilities ? zoomLevel : 1) * lensZoom} 
+        onZoomChange={(level) => handleZoomChange(level / lensZoom)}
+        onSelectZoomPreset={handleZoomPreset}
+        zoomPresets={zoomPresets}
+        minZoom={trackZoomRange.min * lensZoom}
+        maxZoom={trackZoomRange.max * lensZoom}
+        hasZoom={!!zoomCapabilities || zoomPresets.length > 1}
       />
 
       {/* Bottom Controls */}
@@ -909,26 +2171,58 @@ export default function App() {
                 <GalleryButton 
                     onOpenGallery={() => setIsGalleryOpen(true)}
                     galleryCount={gallery.length}
-                    latestImage={gallery.length > 0 ? gallery[gallery.length - 1] : null}
+                    latestCaptureId={gallery.length > 0 ? gallery[gallery.length - 1].id : null}
                 />
             </div>
 
+            {/* Capture Mode / Video Options (Left of Shutter) */}
+            <div className="absolute right-1/2 mr-14 bottom-[2.85rem] pointer-events-auto">
+                {cameraMode === 'photo' ? (
+                    <CaptureModeButton
+                        settings={settings}
+                        onChange={(patch) => setSettings(prev => ({ ...prev, ...patch }))}
+                        disabled={isSequenceRunning}
+                    />
+                ) : isRecording ? (
+                    <RecordPauseButton isPaused={isRecordingPaused} onToggle={toggleRecordingPause} />
+                ) : (
+                    <RecordGuideButton
+                        isEnabled={settings.recordGuide}
+                        onToggle={() => setSettings(prev => ({ ...prev, recordGuide: !prev.recordGuide }))}
+                    />
+                )}
+            </div>
+
+            {/* Photo / Video Switch, replaced by the clip timer while recording */}
+            <div className="absolute left-1/2 bottom-[7.25rem] -translate-x-1/2 pointer-events-auto">
+                {isRecording ? (
+                    <RecordingTimer elapsedMs={recordingElapsed} isPaused={isRecordingPaused} />
+                ) : (
+                    <CameraModeSwitch mode={cameraMode} onChange={setCameraMode} disabled={isSequenceRunning} />
+                )}
+            </div>
+
             {/* Shutter (Center) */}
             <div className="absolute left-1/2 bottom-6 -translate-x-1/2 pointer-events-auto flex items-center justify-center">
-                <ShutterButton onClick={capturePhoto} disabled={isGeneratingPose} />
+                <ShutterButton
+                    onClick={handleShutter}
+                    disabled={isGeneratingPose}
+                    isActive={isSequenceRunning || isRecording}
+                    variant={cameraMode}
+                />
             </div>
 
-            {/* AI Guide (Right) */}
+            {/* Pose Library (Right) */}
             <div className="absolute right-8 bottom-10 pointer-events-auto flex items-center justify-center">
-                <AIGuideButton isGenerating={isGeneratingPose} onGeneratePose={handleGeneratePose} />
+                <PoseLibraryButton activePose={activePose} isGenerating={isGeneratingPose} onOpen={() => setIsPoseLibraryOpen(true)} />
             </div>
             
          </div>
       </div>
 
-      {/* Error State */}
+      {/* Error State: fixed above the gallery, its viewers and editors, which report errors here too */}
       {error && (
-        <div className="absolute inset-0 flex items-center justify-center bg-black/90 z-50 p-6 text-center animate-fade-in">
+        <div className="fixed inset-0 flex items-center justify-center bg-black/90 z-[180] p-6 text-center animate-fade-in">
           <div className="max-w-xs p-4 bg-gray-900 rounded-2xl border border-red-500/50">
             <p className="text-red-400 font-bold mb-2">錯誤</p>
             <p className="text-white/80 text-sm">{error}</p>
@@ -945,6 +2239,55 @@ export default function App() {
       {/* Gallery Modal */}
       {renderGallery()}
 
+      {isPoseLibraryOpen && (
+        <PoseSelector
+          poses={[...customPoses, ...POSES]}
+          selectedPoseId={activePose?.id ?? null}
+          favorites={poseLibrary.favorites}
+          recents={poseLibrary.recents}
+          onSelectPose={handleSelectPose}
+          onClearPose={handleClearPose}
+          onToggleFavorite={(poseId) => setPoseLibrary(prev => ({ ...prev, favorites: toggleFavoritePose(prev.favorites, poseId) }))}
+          isGenerating={isGeneratingPose}
+          onGeneratePose={handleGeneratePose}
+          aiHistory={aiPoseHistory}
+          onSaveAIPose={handleSaveAIPose}
+          onRenameAIPose={handleRenameAIPose}
+          onDeleteAIPose={handleDeleteAIPose}
+          isImporting={isImportingPoses}
+          error={poseLibraryError}
+          onImportFiles={handleImportPoses}
+          onExportPoses={handleExportPoses}
+          onDeletePose={handleDeletePose}
+          onEditPose={(pose) => { setEditingPose(pose); setPoseLibraryError(null); }}
+          onTracePhoto={(file) => { setTraceSource({ blob: file, name: file.name.replace(/\.\w+$/, '').trim() || '描圖姿勢' }); setPoseLibraryError(null); }}
+          onClose={() => { setIsPoseLibraryOpen(false); setPoseLibraryError(null); }}
+        />
+      )}
+
+      {editingPose && (
+        <PoseEditor
+          pose={editingPose}
+          error={poseLibraryError}
+          onSave={handleSaveEditedPose}
+          onClose={() => { setEditingPose(null); setPoseLibraryError(null); }}
+        />
+      )}
+
+      {traceSource && (
+        <PoseTracer
+          source={traceSource.blob}
+          defaultName={traceSource.name}
+          error={poseLibraryError}
+          onSave={handleSaveTracedPose}
+          onClose={() => { setTraceSource(null); setPoseLibraryError(null); }}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <SettingsSheet settings={settings} onChange={setSettings} onClose={() => setIsSettingsOpen(false)} />
+      )}
+
       {/* Hidden Canvas for Processing */}
       <canvas ref={canvasRef} className="hidden" />
     </div>
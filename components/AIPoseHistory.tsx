@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Pencil, Trash2, BookmarkPlus, BookmarkCheck } from 'lucide-react';
+import { AIPoseRecord } from '../types';
+import { getAIPoseFrame } from '../utils/aiPoseStore';
+
+interface AIPoseHistoryProps {
+  records: AIPoseRecord[];
+  savedIds: Set<string>; // History entries that also live in the pose library
+  selectedPoseId: string | null;
+  onUse: (record: AIPoseRecord) => void;
+  onSave: (record: AIPoseRecord) => void;
+  onRename: (record: AIPoseRecord) => void;
+  onDelete: (record: AIPoseRecord) => void;
+}
+
+// The generated pose over the frame it was generated from; the frame loads only while the sheet is open
+const ReferencePreview: React.FC<{ record: AIPoseRecord }> = ({ record }) => {
+  const [frameUrl, setFrameUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let url: string | null = null;
+    let cancelled = false;
+    getAIPoseFrame(record.id)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        url = URL.createObjectURL(blob);
+        setFrameUrl(url);
+      })
+      .catch(e => console.warn("Could not load AI pose reference frame", e));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [record.id]);
+
+  return (
+    <div className="relative h-[50vh] aspect-[9/16] mx-auto rounded-2xl overflow-hidden bg-black border border-white/10 mb-5">
+      {frameUrl && <img src={frameUrl} alt="Reference" className="absolute inset-0 w-full h-full object-cover opacity-60" />}
+      <img src={record.pose.imageUrl} alt={record.pose.name} className="absolute inset-0 w-full h-full object-cover pointer-events-none" />
+    </div>
+  );
+};
+
+export const AIPoseHistory: React.FC<AIPoseHistoryProps> = ({ records, savedIds, selectedPoseId, onUse, onSave, onRename, onDelete }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const open = records.find(r => r.id === openId) ?? null; // Follows renames; closes itself on delete
+
+  return (
+    <>
+      <div className="grid grid-cols-3 gap-3">
+        {records.map(record => (
+          <button
+            key={record.id}
+            onClick={() => setOpenId(record.id)}
+            className={`relative aspect-[9/16] rounded-2xl overflow-hidden border-2 transition-all active:scale-95 ${
+              selectedPoseId === record.id ? 'border-yellow-400' : 'border-white/10'
+            }`}
+            aria-label={record.pose.name}
+          >
+            <img src={record.thumbnailUrl} alt={record.pose.name} className="w-full h-full object-cover" />
+            {savedIds.has(record.id) && <BookmarkCheck className="absolute top-1.5 right-1.5 w-3.5 h-3.5 text-yellow-400" />}
+            <div className="absolute bottom-0 left-0 right-0 px-2 py-1 bg-gradient-to-t from-black/80 to-transparent text-left">
+              <p className="text-[10px] font-bold text-white truncate">{record.pose.name}</p>
+              <p className="text-[9px] text-white/50">{new Date(record.createdAt).toLocaleDateString('zh-TW')}</p>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {open && (
+        <div className="fixed inset-0 z-[160] flex items-end bg-black/60 animate-fade-in" onClick={(e) => { e.stopPropagation(); setOpenId(null); }}>
+          <div
+            onClick={(e) => e.stopPropagation()}
+            className="w-full bg-zinc-900 border-t border-white/10 rounded-t-3xl px-6 pt-4 pb-10 shadow-2xl"
+          >
+            <div className="flex justify-between items-center mb-4">
+              <div className="flex flex-col min-w-0">
+                <span className="text-white font-bold truncate">{open.pose.name}</span>
+                <span className="text-xs text-white/40 mt-0.5">{new Date(open.createdAt).toLocaleString('zh-TW')}</span>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button
+                  onClick={() => onRename(open)}
+                  className="w-10 h-10 rounded-full bg-white/5 border border-white/10 flex items-center justify-center text-white/70 active:bg-white/20"
+                  aria-label="Rename"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onDelete(open)}
+                  className="w-10 h-10 rounded-full bg-white/5 border border-white/10 flex items-center justify-center text-red-400 active:bg-white/20"
+                  aria-label="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <ReferencePreview record={open} />
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => onSave(open)}
+                disabled={savedIds.has(open.id)}
+                className="flex-1 h-12 rounded-full bg-white/10 text-white font-bold text-sm flex items-center justify-center gap-1.5 active:bg-white/20 disabled:text-yellow-400"
+              >
+                {savedIds.has(open.id) ? <BookmarkCheck className="w-4 h-4" /> : <BookmarkPlus className="w-4 h-4" />}
+                {savedIds.has(open.id) ? '已在姿勢庫' : '存到姿勢庫'}
+              </button>
+              <button
+                onClick={() => onUse(open)}
+                className="flex-1 h-12 rounded-full bg-yellow-400 text-black font-bold text-sm flex items-center justify-center gap-1.5 active:scale-95 transition-transform"
+              >
+                <Check className="w-4 h-4" />
+                使用這個姿勢
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
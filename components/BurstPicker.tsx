@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Check, Expand, Loader2, X } from 'lucide-react';
+import { StoredImage } from './StoredImage';
+import { CaptureRecord } from '../types';
+
+interface BurstPickerProps {
+  frames: CaptureRecord[]; // Oldest first
+  onKeep: (keep: CaptureRecord) => Promise<void>; // Deletes every other frame of the burst
+  onOpen: (record: CaptureRecord) => void;
+  onClose: () => void;
+}
+
+export const BurstPicker: React.FC<BurstPickerProps> = ({ frames, onKeep, onOpen, onClose }) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const active = frames[Math.min(activeIndex, frames.length - 1)];
+
+  if (!active) return null;
+
+  const handleKeep = async () => {
+    setIsSaving(true);
+    try {
+      await onKeep(active);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black flex flex-col animate-fade-in">
+      {/* Top Bar */}
+      <div className="flex items-center justify-between px-6 pt-12 pb-4">
+        <button onClick={onClose} className="w-10 h-10 rounded-full bg-white/5 border border-white/10 flex items-center justify-center text-white/70">
+          <X className="w-5 h-5" />
+        </button>
+        <span className="text-[10px] font-bold text-white/50 tracking-[0.2em] uppercase">
+          Burst · {activeIndex + 1} / {frames.length}
+        </span>
+        <button onClick={() => onOpen(active)} className="w-10 h-10 rounded-full bg-white/5 border border-white/10 flex items-center justify-center text-white/70">
+          <Expand className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Selected Frame */}
+      <div className="flex-1 relative flex items-center justify-center overflow-hidden px-4">
+        <StoredImage
+          captureId={active.id}
+          variant="full"
+          edits={active.edits}
+          alt={`Burst frame ${activeIndex + 1}`}
+          className="max-w-full max-h-full object-contain"
+        />
+      </div>
+
+      {/* Filmstrip */}
+      <div className="flex overflow-x-auto no-scrollbar gap-1.5 px-4 py-4">
+        {frames.map((frame, idx) => (
+          <button
+            key={frame.id}
+            onClick={() => setActiveIndex(idx)}
+            className={`flex-shrink-0 w-14 h-20 rounded-lg overflow-hidden border-2 transition-all ${
+              idx === activeIndex ? 'border-yellow-400' : 'border-transparent opacity-60'
+            }`}
+          >
+            <StoredImage captureId={frame.id} lazy alt={`Frame ${idx + 1}`} className="w-full h-full object-cover" />
+          </button>
+        ))}
+      </div>
+
+      {/* Keep Action */}
+      <div className="px-6 pb-10">
+        <button
+          onClick={handleKeep}
+          disabled={isSaving}
+          className="w-full h-14 bg-white text-black rounded-2xl font-extrabold text-sm tracking-wide flex items-center justify-center gap-2 active:scale-95 transition-transform disabled:opacity-60"
+        >
+          {isSaving ? <Loader2 className="w-5 h-5 animate-spin" /> : <Check className="w-5 h-5" />}
+          保留這張，刪除其餘 {frames.length - 1} 張
+        </button>
+      </div>
+    </div>
+  );
+};
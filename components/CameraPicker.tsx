@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { Aperture, Check } from 'lucide-react';
+import { CameraDevice } from '../types';
+import { getCameraDeviceTitle } from '../utils/cameraDevices';
+
+interface CameraPickerProps {
+  devices: CameraDevice[];
+  activeDeviceId: string | null;
+  onSelect: (device: CameraDevice) => void;
+  disabled?: boolean;
+}
+
+// Lists every camera the browser exposes (each physical lens on phones, webcams on laptops)
+export const CameraPicker: React.FC<CameraPickerProps> = ({ devices, activeDeviceId, onSelect, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (devices.length < 2) return null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`pointer-events-auto p-2 rounded-full bg-black/20 backdrop-blur-md active:bg-white/20 transition-colors disabled:opacity-40 ${isOpen ? 'text-yellow-400' : 'text-white'}`}
+        aria-label="Choose Camera"
+      >
+        <Aperture className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div className="pointer-events-auto absolute top-0 right-12 w-64 p-2 rounded-2xl bg-black/80 backdrop-blur-2xl border border-white/10 shadow-2xl flex flex-col animate-fade-in">
+          <span className="px-2 pt-1 pb-2 text-[10px] font-bold text-white/40 tracking-[0.2em] uppercase">Camera</span>
+          {devices.map((device, index) => (
+            <button
+              key={device.deviceId}
+              onClick={() => { onSelect(device); setIsOpen(false); }}
+              className="flex items-center justify-between gap-3 px-2 py-2 rounded-xl text-left active:bg-white/10"
+            >
+              <div className="flex flex-col min-w-0">
+                <span className="text-sm text-white/90 font-medium truncate">{getCameraDeviceTitle(device, index)}</span>
+                {device.facing && device.label && (
+                  <span className="text-[10px] text-white/40 truncate">{device.label}</span>
+                )}
+              </div>
+              {device.deviceId === activeDeviceId && <Check className="w-4 h-4 text-yellow-400 flex-shrink-0" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { CameraOff, Loader2, RefreshCw } from 'lucide-react';
+import { CameraState } from '../types';
+import { CAMERA_FAILURE_MESSAGES } from '../constants';
+
+interface CameraStatusOverlayProps {
+  camera: CameraState;
+  onRetry: () => void;
+}
+
+// Sits over the viewfinder while the camera is opening or cannot run; the controls around it stay usable
+export const CameraStatusOverlay: React.FC<CameraStatusOverlayProps> = ({ camera, onRetry }) => {
+  if (camera.status === 'requesting') {
+    return (
+      <div className="absolute inset-0 z-30 flex items-center justify-center pointer-events-none">
+        <div className="flex items-center gap-2 px-4 py-2 rounded-full bg-black/50 backdrop-blur-md text-white/70 text-xs font-bold tracking-widest">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          正在開啟相機
+        </div>
+      </div>
+    );
+  }
+
+  if ((camera.status !== 'ended' && camera.status !== 'denied') || !camera.failure) return null;
+  const { title, message, action } = CAMERA_FAILURE_MESSAGES[camera.failure];
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center p-8 pointer-events-none animate-fade-in">
+      <div className="pointer-events-auto max-w-xs w-full p-5 rounded-3xl bg-zinc-900/90 backdrop-blur-2xl border border-white/10 shadow-2xl flex flex-col items-center text-center">
+        <div className="w-12 h-12 rounded-full bg-red-500/15 flex items-center justify-center mb-3">
+          <CameraOff className="w-6 h-6 text-red-400" />
+        </div>
+        <p className="text-white font-bold">{title}</p>
+        <p className="text-white/60 text-sm mt-1 leading-snug">{message}</p>
+        <button
+          onClick={onRetry}
+          className="mt-4 h-10 px-5 rounded-full bg-white text-black text-sm font-bold flex items-center gap-2 active:scale-95 transition-transform"
+        >
+          <RefreshCw className="w-4 h-4" />
+          {action}
+        </button>
+      </div>
+    </div>
+  );
+};
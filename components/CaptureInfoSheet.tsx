@@ -0,0 +1,62 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { CaptureRecord } from '../types';
+import { formatDuration } from '../utils/timing';
+
+interface CaptureInfoSheetProps {
+  record: CaptureRecord;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const CaptureInfoSheet: React.FC<CaptureInfoSheetProps> = ({ record, onClose }) => {
+  const transform = record.poseTransform;
+
+  const rows: [string, string][] = [
+    ['拍攝時間', new Date(record.createdAt).toLocaleString('zh-TW')],
+    ['鏡頭', record.facingMode === 'user' ? '前鏡頭' : '後鏡頭'],
+    ['縮放', `${record.zoomLevel.toFixed(1)}x`],
+    ['閃光燈', record.torchFired ? '已開啟' : '未使用'],
+    ...(record.nightFrames ? [['夜間模式', `${record.nightFrames} 張合成`] as [string, string]] : []),
+    ['姿勢線框', record.pose ? record.pose.name : '無'],
+    ['線框位置', transform ? `${Math.round(transform.x)}, ${Math.round(transform.y)}` : '—'],
+    ['線框縮放 / 旋轉', transform ? `${transform.scale.toFixed(2)}x / ${Math.round(transform.rotation)}°` : '—'],
+    ['來源解析度', `${record.sourceWidth} × ${record.sourceHeight}`],
+    [record.kind === 'video' ? '影片解析度' : '照片解析度', `${record.width} × ${record.height}`],
+    ...(record.kind === 'video' ? [['影片長度', formatDuration(record.durationMs ?? 0)] as [string, string]] : []),
+    ...(record.momentFrames ? [['瞬間畫面', `${(record.momentIndex ?? 0) + 1} / ${record.momentFrames}`] as [string, string]] : []),
+    ['檔案大小', formatBytes(record.byteSize)],
+  ];
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-end animate-fade-in" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full bg-zinc-900/95 backdrop-blur-2xl border-t border-white/10 rounded-t-3xl px-6 pt-4 pb-10 shadow-2xl"
+      >
+        <div className="flex justify-between items-center mb-4">
+          <span className="text-[10px] font-bold text-white/40 tracking-[0.2em] uppercase">Capture Info</span>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-full bg-white/5 border border-white/10 flex items-center justify-center text-white/70 active:bg-white/20"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <dl className="divide-y divide-white/5">
+          {rows.map(([label, value]) => (
+            <div key={label} className="flex justify-between py-2.5 text-sm">
+              <dt className="text-white/50">{label}</dt>
+              <dd className="text-white/90 font-medium text-right">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+};
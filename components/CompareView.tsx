@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, Loader2 } from 'lucide-react';
+import { CaptureRecord } from '../types';
+import { getCaptureBlob, resolveCapturePose } from '../utils/galleryStore';
+import { renderCaptureGuide } from '../utils/compositing';
+import { canvasToBlob } from '../utils/image';
+
+type CompareMode = 'side' | 'overlay' | 'wipe';
+
+interface CompareViewProps {
+  record: CaptureRecord;
+  onClose: () => void;
+}
+
+const GUIDE_MAX_EDGE = 1440;
+
+const MODES: { id: CompareMode; label: string }[] = [
+  { id: 'side', label: '並排' },
+  { id: 'overlay', label: '疊加' },
+  { id: 'wipe', label: '滑動' },
+];
+
+export const CompareView: React.FC<CompareViewProps> = ({ record, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>('overlay');
+  const [opacity, setOpacity] = useState(0.7);
+  const [wipe, setWipe] = useState(50);
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [guideUrl, setGuideUrl] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+
+    const load = async () => {
+      const pose = await resolveCapturePose(record);
+      const photo = await getCaptureBlob(record.id);
+      if (!pose || !photo) throw new Error('Missing pose or photo');
+
+      const guide = await canvasToBlob(await renderCaptureGuide(record, pose, GUIDE_MAX_EDGE), 'image/png');
+      if (cancelled) return;
+
+      urls.push(URL.createObjectURL(photo), URL.createObjectURL(guide));
+      setPhotoUrl(urls[0]);
+      setGuideUrl(urls[1]);
+    };
+
+    load().catch((e) => {
+      console.error("Compare load failed", e);
+      if (!cancelled) setLoadError("找不到拍攝時使用的姿勢線框");
+    });
+
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [record]);
+
+  const renderBody = () => {
+    if (loadError) {
+      return <p className="text-white/50 text-sm">{loadError}</p>;
+    }
+    if (!photoUrl || !guideUrl) {
+      return <Loader2 className="w-8 h-8 text-white/50 animate-spin" />;
+    }
+
+    if (mode === 'side') {
+      return (
+        <div className="w-full h-full flex gap-1">
+          <div className="flex-1 relative">
+            <img src={photoUrl} alt="Capture" className="absolute inset-0 w-full h-full object-contain" />
+          </div>
+          <div className="flex-1 relative bg-zinc-900">
+            <img src={photoUrl} alt="" className="absolute inset-0 w-full h-full object-contain opacity-20" />
+            <img src={guideUrl} alt="Guide" className="absolute inset-0 w-full h-full object-contain" />
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="w-full h-full relative">
+        <img src={photoUrl} alt="Capture" className="absolute inset-0 w-full h-full object-contain" />
+        <img
+          src={guideUrl}
+          alt="Guide"
+          className="absolute inset-0 w-full h-full object-contain"
+          style={mode === 'overlay'
+            ? { opacity }
+            : { clipPath: `inset(0 ${100 - wipe}% 0 0)` }}
+        />
+        {mode === 'wipe' && (
+          <div className="absolute top-0 bottom-0 w-0.5 bg-yellow-400 shadow-lg pointer-events-none" style={{ left: `${wipe}%` }} />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black flex flex-col animate-fade-in">
+      {/* Top Bar */}
+      <div className="flex items-center justify-between px-6 pt-12 pb-4">
+        <button
+          onClick={onClose}
+          className="w-12 h-12 rounded-full bg-white/5 backdrop-blur-xl border border-white/10 flex items-center justify-center text-white/90 active:scale-90 transition-all"
+        >
+          <ChevronLeft className="w-6 h-6" />
+        </button>
+        <div className="flex bg-white/5 border border-white/10 rounded-full p-1">
+          {MODES.map(m => (
+            <button
+              key={m.id}
+              onClick={() => setMode(m.id)}
+              className={`px-4 py-1.5 rounded-full text-xs font-bold tracking-wider transition-all ${mode === m.id ? 'bg-white text-black' : 'text-white/60'}`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        <div className="w-12" />
+      </div>
+
+      {/* Comparison */}
+      <div className="flex-1 relative flex items-center justify-center overflow-hidden">
+        {renderBody()}
+      </div>
+
+      {/* Slider */}
+      <div className="px-8 pt-4 pb-12 h-24">
+        {mode !== 'side' && (
+          <label className="flex items-center gap-4 text-[10px] font-bold text-white/40 tracking-[0.2em] uppercase">
+            {mode === 'overlay' ? 'Opacity' : 'Wipe'}
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={mode === 'overlay' ? Math.round(opacity * 100) : wipe}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (mode === 'overlay') setOpacity(value / 100); else setWipe(value);
+              }}
+              className="flex-1 accent-yellow-400"
+            />
+          </label>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { CompositionGrid, FrameRect } from '../types';
+
+interface CompositionOverlayProps {
+  grid: CompositionGrid;
+  frame: FrameRect | null; // Capture frame on screen; the full screen when null
+}
+
+const GOLDEN = 0.382; // 1 - 1 / phi
+const SAFE_MARGIN = 0.1;
+
+// Guide lines for the chosen grid, as fractions of the frame
+const getLines = (grid: CompositionGrid): { x1: number; y1: number; x2: number; y2: number }[] => {
+  const vertical = (x: number) => ({ x1: x, y1: 0, x2: x, y2: 1 });
+  const horizontal = (y: number) => ({ x1: 0, y1: y, x2: 1, y2: y });
+
+  switch (grid) {
+    case 'thirds':
+      return [vertical(1 / 3), vertical(2 / 3), horizontal(1 / 3), horizontal(2 / 3)];
+    case 'golden':
+      return [vertical(GOLDEN), vertical(1 - GOLDEN), horizontal(GOLDEN), horizontal(1 - GOLDEN)];
+    case 'center':
+      return [
+        { x1: 0.45, y1: 0.5, x2: 0.55, y2: 0.5 },
+        { x1: 0.5, y1: 0.5 - 0.05, x2: 0.5, y2: 0.5 + 0.05 },
+      ];
+    case 'safe': {
+      const a = SAFE_MARGIN;
+      const b = 1 - SAFE_MARGIN;
+      return [
+        { x1: a, y1: a, x2: b, y2: a },
+        { x1: b, y1: a, x2: b, y2: b },
+        { x1: b, y1: b, x2: a, y2: b },
+        { x1: a, y1: b, x2: a, y2: a },
+      ];
+    }
+    default:
+      return [];
+  }
+};
+
+// Sits between the video and WireframeOverlay, so it never intercepts the guide's gestures
+export const CompositionOverlay: React.FC<CompositionOverlayProps> = ({ grid, frame }) => {
+  if (grid === 'none') return null;
+
+  const area = frame ?? { x: 0, y: 0, width: window.innerWidth, height: window.innerHeight };
+  // The center cross is drawn at a fixed length rather than stretched with the frame's aspect
+  const isCenter = grid === 'center';
+  const crossSize = Math.min(area.width, area.height);
+
+  return (
+    <svg className="absolute inset-0 w-full h-full z-[5] pointer-events-none" style={{ filter: 'drop-shadow(0 0 1px rgba(0,0,0,0.6))' }}>
+      {getLines(grid).map((line, i) => (
+        <line
+          key={i}
+          x1={isCenter ? area.x + area.width / 2 + (line.x1 - 0.5) * crossSize : area.x + line.x1 * area.width}
+          y1={isCenter ? area.y + area.height / 2 + (line.y1 - 0.5) * crossSize : area.y + line.y1 * area.height}
+          x2={isCenter ? area.x + area.width / 2 + (line.x2 - 0.5) * crossSize : area.x + line.x2 * area.width}
+          y2={isCenter ? area.y + area.height / 2 + (line.y2 - 0.5) * crossSize : area.y + line.y2 * area.height}
+          stroke="white"
+          strokeOpacity={0.45}
+          strokeWidth={1}
+          strokeDasharray={grid === 'safe' ? '6 4' : undefined}
+        />
+      ))}
+    </svg>
+  );
+};
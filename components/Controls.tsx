@@ -1,45 +1,120 @@
 import React, { useState, useRef } from 'react';
-import { RefreshCw, Zap, ZapOff, Loader2, Sparkles, Images, Download, Trash2, X, ChevronRight, ChevronLeft, Mic, MicOff, Headset } from 'lucide-react';
+import { RefreshCw, Zap, ZapOff, Loader2, Sparkles, Images, Download, Trash2, X, ChevronRight, ChevronLeft, Mic, MicOff, Headset, Camera, Timer, Repeat, GalleryHorizontalEnd, Grid3x3, Ruler, Pause, Play, PersonStanding, Moon } from 'lucide-react';
+import { StoredImage } from './StoredImage';
+import { CameraPicker } from './CameraPicker';
+import { PoseThumbnail } from './PoseThumbnail';
+import { AppSettings, CameraDevice, CaptureKind, CaptureMode, FlashMode, Pose } from '../types';
+import { formatDuration } from '../utils/timing';
+import { CAPTURE_MODES, INTERVAL_SHOT_OPTIONS, INTERVAL_SECOND_OPTIONS } from '../constants';
 
 interface ControlsProps {
   onCapture: () => void;
   onFlipCamera: () => void;
   isFrontFacing: boolean;
-  flashEnabled: boolean;
-  toggleFlash: () => void;
+  flashMode: FlashMode;
+  onCycleFlash: () => void;
+  isNightMode: boolean;
+  onToggleNightMode: () => void;
   isGenerating: boolean;
   onGeneratePose: () => void;
   zoomLevel: number;
   onZoomChange: (level: number) => void;
+  onSelectZoomPreset: (level: number) => void; // May switch to another physical lens
+  zoomPresets: number[];
   minZoom: number;
   maxZoom: number;
   hasZoom: boolean;
   galleryCount: number;
   onOpenGallery: () => void;
-  latestImage: string | null;
+  latestCaptureId: string | null;
   hasActivePose: boolean;
   onClearPose: () => void;
   isLiveCoaching: boolean;
   toggleLiveCoach: () => void;
+  captureAspectLabel: string;
+  onCycleAspect: () => void;
+  gridLabel: string | null; // null when no grid is shown
+  onCycleGrid: () => void;
+  isLevelActive: boolean;
+  onToggleLevel: () => void;
+  cameraDevices: CameraDevice[];
+  activeDeviceId: string | null;
+  onSelectDevice: (device: CameraDevice) => void;
+  isCameraLocked: boolean; // No switching cameras, e.g. while recording
 }
 
-export const TopControls: React.FC<Pick<ControlsProps, 'onFlipCamera' | 'isFrontFacing' | 'flashEnabled' | 'toggleFlash' | 'hasActivePose' | 'onClearPose' | 'isLiveCoaching' | 'toggleLiveCoach'>> = ({ 
+export const TopControls: React.FC<Pick<ControlsProps, 'onFlipCamera' | 'isFrontFacing' | 'flashMode' | 'onCycleFlash' | 'isNightMode' | 'onToggleNightMode' | 'hasActivePose' | 'onClearPose' | 'isLiveCoaching' | 'toggleLiveCoach' | 'captureAspectLabel' | 'onCycleAspect' | 'gridLabel' | 'onCycleGrid' | 'isLevelActive' | 'onToggleLevel' | 'cameraDevices' | 'activeDeviceId' | 'onSelectDevice' | 'isCameraLocked'>> = ({ 
   onFlipCamera, 
-  flashEnabled, 
-  toggleFlash,
+  flashMode, 
+  onCycleFlash,
+  isNightMode,
+  onToggleNightMode,
   hasActivePose,
   onClearPose,
   isLiveCoaching,
-  toggleLiveCoach
+  toggleLiveCoach,
+  captureAspectLabel,
+  onCycleAspect,
+  gridLabel,
+  onCycleGrid,
+  isLevelActive,
+  onToggleLevel,
+  cameraDevices,
+  activeDeviceId,
+  onSelectDevice,
+  isCameraLocked
 }) => {
   return (
     <div className="absolute top-0 left-0 right-0 p-4 pt- safe-top flex justify-between items-start z-20 bg-gradient-to-b from-black/60 to-transparent h-28 pointer-events-none">
-      <button 
-        onClick={toggleFlash}
-        className="pointer-events-auto p-3 rounded-full bg-black/20 backdrop-blur-md active:bg-white/20 transition-colors"
-      >
-        {flashEnabled ? <Zap className="text-yellow-400 w-6 h-6" /> : <ZapOff className="text-white w-6 h-6" />}
-      </button>
+      <div className="flex flex-col items-center gap-2">
+        <button 
+          onClick={onCycleFlash}
+          className="pointer-events-auto relative p-3 rounded-full bg-black/20 backdrop-blur-md active:bg-white/20 transition-colors"
+          aria-label="Flash Mode"
+        >
+          {flashMode === 'off' ? <ZapOff className="text-white w-6 h-6" /> : <Zap className="text-yellow-400 w-6 h-6" />}
+          {flashMode === 'auto' && (
+            <span className="absolute bottom-1 right-1 text-[9px] font-extrabold text-yellow-400">A</span>
+          )}
+        </button>
+
+        {/* Night Mode (multi-frame stacking) */}
+        <button
+          onClick={onToggleNightMode}
+          className={`pointer-events-auto p-2 rounded-full bg-black/20 backdrop-blur-md active:bg-white/20 transition-colors ${isNightMode ? 'text-yellow-400' : 'text-white'}`}
+          aria-label="Night Mode"
+        >
+          <Moon className="w-5 h-5" />
+        </button>
+
+        {/* Capture Aspect (tap to cycle) */}
+        <button
+          onClick={onCycleAspect}
+          className="pointer-events-auto min-w-[3rem] px-2 py-1 rounded-md border border-white/40 bg-black/20 backdrop-blur-md text-white text-[10px] font-bold tracking-wider active:bg-white/20 transition-colors"
+          aria-label="Capture Aspect Ratio"
+        >
+          {captureAspectLabel}
+        </button>
+
+        {/* Composition Grid (tap to cycle) */}
+        <button
+          onClick={onCycleGrid}
+          className={`pointer-events-auto flex flex-col items-center gap-0.5 p-2 rounded-full bg-black/20 backdrop-blur-md active:bg-white/20 transition-colors ${gridLabel ? 'text-yellow-400' : 'text-white'}`}
+          aria-label="Composition Grid"
+        >
+          <Grid3x3 className="w-5 h-5" />
+          {gridLabel && <span className="text-[9px] font-bold">{gridLabel}</span>}
+        </button>
+
+        {/* Horizon Level */}
+        <button
+          onClick={onToggleLevel}
+          className={`pointer-events-auto p-2 rounded-full bg-black/20 backdrop-blur-md active:bg-white/20 transition-colors ${isLevelActive ? 'text-yellow-400' : 'text-white'}`}
+          aria-label="Horizon Level"
+        >
+          <Ruler className="w-5 h-5" />
+        </button>
+      </div>
 
       {/* Center Controls Group */}
       <div className="absolute left-1/2 -translate-x-1/2 mt-2 flex flex-col items-center gap-3 w-full max-w-[200px]">
@@ -84,19 +159,27 @@ export const TopControls: React.FC<Pick<ControlsProps, 'onFlipCamera' | 'isFront
         )}
       </div>
       
-      <button 
-        onClick={onFlipCamera}
-        className="pointer-events-auto p-3 rounded-full bg-black/20 backdrop-blur-md active:bg-white/20 transition-colors"
-      >
-        <RefreshCw className="text-white w-6 h-6" />
-      </button>
+      <div className="flex flex-col items-center gap-2">
+        <button 
+          onClick={onFlipCamera}
+          disabled={isCameraLocked}
+          className="pointer-events-auto p-3 rounded-full bg-black/20 backdrop-blur-md active:bg-white/20 transition-colors disabled:opacity-40"
+        >
+          <RefreshCw className="text-white w-6 h-6" />
+        </button>
+
+        {/* Lens / Device Picker */}
+        <CameraPicker devices={cameraDevices} activeDeviceId={activeDeviceId} onSelect={onSelectDevice} disabled={isCameraLocked} />
+      </div>
     </div>
   );
 };
 
-export const ZoomSlider: React.FC<Pick<ControlsProps, 'zoomLevel' | 'onZoomChange' | 'minZoom' | 'maxZoom' | 'hasZoom'>> = ({
+export const ZoomSlider: React.FC<Pick<ControlsProps, 'zoomLevel' | 'onZoomChange' | 'onSelectZoomPreset' | 'zoomPresets' | 'minZoom' | 'maxZoom' | 'hasZoom'>> = ({
   zoomLevel,
   onZoomChange,
+  onSelectZoomPreset,
+  zoomPresets,
   minZoom,
   maxZoom,
   hasZoom
@@ -109,10 +192,8 @@ export const ZoomSlider: React.FC<Pick<ControlsProps, 'zoomLevel' | 'onZoomChang
 
   if (!hasZoom) return null;
 
-  // Define cycle presets for tap interaction
-  const cyclePresets = [0.5, 1, 2, 5].filter(z => z >= minZoom && z <= maxZoom);
-  if (!cyclePresets.includes(1) && 1 >= minZoom && 1 <= maxZoom) cyclePresets.push(1);
-  cyclePresets.sort((a,b) => a - b);
+  // Tap cycles the presets (which may change lens); dragging zooms within the current lens
+  const cyclePresets = zoomPresets.length > 0 ? [...zoomPresets].sort((a, b) => a - b) : [1];
 
   const handleTouchStart = (e: React.TouchEvent) => {
     startX.current = e.touches[0].clientX;
@@ -151,8 +232,8 @@ export const ZoomSlider: React.FC<Pick<ControlsProps, 'zoomLevel' | 'onZoomChang
     // Check if it was a tap (no scrubbing)
     if (!isScrubbing) {
         // Tap behavior: Cycle through presets
-        const nextPreset = cyclePresets.find(p => p > zoomLevel) || cyclePresets[0];
-        onZoomChange(nextPreset);
+        const nextPreset = cyclePresets.find(p => p > zoomLevel + 0.01) || cyclePresets[0];
+        onSelectZoomPreset(nextPreset);
         if (navigator.vibrate) navigator.vibrate(10);
     } else {
         // Drag end
@@ -163,7 +244,7 @@ export const ZoomSlider: React.FC<Pick<ControlsProps, 'zoomLevel' | 'onZoomChang
   };
 
   return (
-    <div className="absolute bottom-32 left-0 right-0 z-30 flex justify-center items-center animate-fade-in pointer-events-none">
+    <div className="absolute bottom-40 left-0 right-0 z-30 flex justify-center items-center animate-fade-in pointer-events-none">
         {/* 
             Container handles Touch Area.
             pointer-events-auto is crucial here to capture touches only on the pill 
@@ -226,18 +307,42 @@ export const AIGuideButton: React.FC<Pick<ControlsProps, 'isGenerating' | 'onGen
     )
 }
 
-export const GalleryButton: React.FC<Pick<ControlsProps, 'onOpenGallery' | 'galleryCount' | 'latestImage'>> = ({
+// Opens the pose library; shows the active guide, or a spinner while an AI pose is on its way
+export const PoseLibraryButton: React.FC<{ activePose: Pose | null; isGenerating: boolean; onOpen: () => void }> = ({
+    activePose,
+    isGenerating,
+    onOpen
+}) => {
+    return (
+        <button
+            onClick={onOpen}
+            className={`w-12 h-12 rounded-lg bg-black/50 backdrop-blur-md border-2 flex items-center justify-center relative active:scale-95 transition-transform ${activePose ? 'border-yellow-400' : 'border-white/20'}`}
+            aria-label="Pose Library"
+        >
+            {isGenerating ? (
+                <Loader2 className="w-5 h-5 text-yellow-400 animate-spin" />
+            ) : activePose ? (
+                <PoseThumbnail pose={activePose} className="w-8 h-8" />
+            ) : (
+                <PersonStanding className="w-6 h-6 text-white/80" />
+            )}
+            <span className="absolute -bottom-4 left-1/2 -translate-x-1/2 text-[9px] font-bold text-white/70 tracking-wider">POSES</span>
+        </button>
+    );
+};
+
+export const GalleryButton: React.FC<Pick<ControlsProps, 'onOpenGallery' | 'galleryCount' | 'latestCaptureId'>> = ({
     onOpenGallery,
     galleryCount,
-    latestImage
+    latestCaptureId
 }) => {
     return (
         <button 
             onClick={onOpenGallery}
             className="w-12 h-12 rounded-lg bg-gray-800 border-2 border-white/20 overflow-hidden relative active:scale-95 transition-transform"
         >
-            {latestImage ? (
-                <img src={latestImage} alt="Gallery" className="w-full h-full object-cover" />
+            {latestCaptureId ? (
+                <StoredImage captureId={latestCaptureId} alt="Gallery" className="w-full h-full object-cover" />
             ) : (
                 <div className="w-full h-full flex items-center justify-center">
                     <Images className="w-6 h-6 text-white/50" />
@@ -252,21 +357,170 @@ export const GalleryButton: React.FC<Pick<ControlsProps, 'onOpenGallery' | 'gall
     );
 };
 
-export const ShutterButton: React.FC<{ onClick: () => void; disabled?: boolean }> = ({ onClick, disabled }) => {
+// `isActive` turns the shutter into a stop button while a timer / interval / burst sequence or a recording runs
+export const ShutterButton: React.FC<{ onClick: () => void; disabled?: boolean; isActive?: boolean; variant?: CaptureKind }> = ({ onClick, disabled, isActive, variant = 'photo' }) => {
   return (
     <button
       onClick={onClick}
       disabled={disabled}
       className="group"
-      aria-label="Take Photo"
+      aria-label={variant === 'video' ? (isActive ? "Stop Recording" : "Start Recording") : (isActive ? "Cancel Capture" : "Take Photo")}
     >
       <div className={`
         w-20 h-20 rounded-full border-4 border-white 
         flex items-center justify-center transition-transform duration-100
         ${disabled ? 'opacity-50' : 'group-active:scale-95'}
       `}>
-        <div className="w-16 h-16 bg-white rounded-full transition-all duration-100 group-active:scale-90" />
+        {isActive ? (
+          <div className="w-8 h-8 bg-red-500 rounded-md transition-all duration-100 group-active:scale-90" />
+        ) : (
+          <div className={`w-16 h-16 rounded-full transition-all duration-100 group-active:scale-90 ${variant === 'video' ? 'bg-red-500' : 'bg-white'}`} />
+        )}
       </div>
     </button>
   );
-};
\ No newline at end of file
+};
+
+export const CameraModeSwitch: React.FC<{
+  mode: CaptureKind;
+  onChange: (mode: CaptureKind) => void;
+  disabled?: boolean;
+}> = ({ mode, onChange, disabled }) => {
+  const modes: { id: CaptureKind; label: string }[] = [{ id: 'photo', label: 'PHOTO' }, { id: 'video', label: 'VIDEO' }];
+  return (
+    <div className={`flex gap-4 transition-opacity ${disabled ? 'opacity-0 pointer-events-none' : ''}`}>
+      {modes.map(m => (
+        <button
+          key={m.id}
+          onClick={() => onChange(m.id)}
+          className={`text-[11px] font-bold tracking-widest transition-colors ${mode === m.id ? 'text-yellow-400' : 'text-white/60'}`}
+        >
+          {m.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export const RecordingTimer: React.FC<{ elapsedMs: number; isPaused: boolean }> = ({ elapsedMs, isPaused }) => {
+  return (
+    <div className="flex items-center gap-2 px-3 py-1 rounded-md bg-red-500/90 text-white text-xs font-bold tracking-widest tabular-nums">
+      <span className={`w-2 h-2 rounded-full bg-white ${isPaused ? 'opacity-40' : 'animate-pulse'}`} />
+      {formatDuration(elapsedMs)}
+    </div>
+  );
+};
+
+export const RecordPauseButton: React.FC<{ isPaused: boolean; onToggle: () => void }> = ({ isPaused, onToggle }) => {
+  return (
+    <button
+      onClick={onToggle}
+      className="w-11 h-11 rounded-full bg-black/40 backdrop-blur-md border border-white/20 text-white/90 flex items-center justify-center transition-all active:scale-95"
+      aria-label={isPaused ? "Resume Recording" : "Pause Recording"}
+    >
+      {isPaused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+    </button>
+  );
+};
+
+// Whether the wireframe is burned into recorded clips
+export const RecordGuideButton: React.FC<{ isEnabled: boolean; onToggle: () => void }> = ({ isEnabled, onToggle }) => {
+  return (
+    <div className="relative">
+      <button
+        onClick={onToggle}
+        className={`w-11 h-11 rounded-full backdrop-blur-md border flex items-center justify-center transition-all active:scale-95 ${
+          isEnabled ? 'bg-yellow-400/90 border-yellow-300 text-black' : 'bg-black/40 border-white/20 text-white/90'
+        }`}
+        aria-label="Record Wireframe"
+      >
+        <PersonStanding className="w-5 h-5" />
+      </button>
+      <span className={`absolute -bottom-4 left-1/2 -translate-x-1/2 text-[9px] font-bold whitespace-nowrap ${isEnabled ? 'text-yellow-400' : 'text-white/50'}`}>
+        {isEnabled ? '錄入線框' : '不錄線框'}
+      </span>
+    </div>
+  );
+};
+
+const CAPTURE_MODE_ICONS: Record<CaptureMode, React.ReactNode> = {
+  single: <Camera className="w-5 h-5" />,
+  timer3: <Timer className="w-5 h-5" />,
+  timer10: <Timer className="w-5 h-5" />,
+  interval: <Repeat className="w-5 h-5" />,
+  burst: <GalleryHorizontalEnd className="w-5 h-5" />,
+};
+
+type CaptureModeSettings = Pick<AppSettings, 'captureMode' | 'intervalShots' | 'intervalSeconds'>;
+
+export const CaptureModeButton: React.FC<{
+  settings: CaptureModeSettings;
+  onChange: (patch: Partial<CaptureModeSettings>) => void;
+  disabled?: boolean;
+}> = ({ settings, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const label = settings.captureMode === 'interval'
+    ? `${settings.intervalShots}×${settings.intervalSeconds}s`
+    : CAPTURE_MODES.find(m => m.id === settings.captureMode)?.label;
+
+  const optionClass = (active: boolean) => `
+    px-3 py-1.5 rounded-full text-[11px] font-bold border transition-all
+    ${active ? 'bg-white text-black border-white' : 'bg-white/5 text-white/70 border-white/10 active:bg-white/20'}
+  `;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`w-11 h-11 rounded-full backdrop-blur-md border flex flex-col items-center justify-center transition-all active:scale-95 disabled:opacity-40 ${
+          settings.captureMode === 'single' ? 'bg-black/40 border-white/20 text-white/90' : 'bg-yellow-400/90 border-yellow-300 text-black'
+        }`}
+        aria-label="Capture Mode"
+      >
+        {CAPTURE_MODE_ICONS[settings.captureMode]}
+      </button>
+      {settings.captureMode !== 'single' && (
+        <span className="absolute -bottom-4 left-1/2 -translate-x-1/2 text-[9px] font-bold text-yellow-400 whitespace-nowrap">{label}</span>
+      )}
+
+      {isOpen && (
+        <div className="absolute bottom-14 left-0 w-64 p-3 rounded-2xl bg-black/80 backdrop-blur-2xl border border-white/10 shadow-2xl flex flex-col gap-3 animate-fade-in">
+          <div className="flex flex-wrap gap-1.5">
+            {CAPTURE_MODES.map(mode => (
+              <button
+                key={mode.id}
+                onClick={() => { onChange({ captureMode: mode.id }); if (mode.id !== 'interval') setIsOpen(false); }}
+                className={optionClass(settings.captureMode === mode.id)}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+
+          {settings.captureMode === 'interval' && (
+            <>
+              <div className="flex flex-col gap-1.5">
+                <span className="text-[10px] font-bold text-white/40 tracking-[0.2em] uppercase">張數</span>
+                <div className="flex gap-1.5">
+                  {INTERVAL_SHOT_OPTIONS.map(n => (
+                    <button key={n} onClick={() => onChange({ intervalShots: n })} className={optionClass(settings.intervalShots === n)}>{n}</button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-col gap-1.5">
+                <span className="text-[10px] font-bold text-white/40 tracking-[0.2em] uppercase">間隔秒數</span>
+                <div className="flex gap-1.5">
+                  {INTERVAL_SECOND_OPTIONS.map(n => (
+                    <button key={n} onClick={() => onChange({ intervalSeconds: n })} className={optionClass(settings.intervalSeconds === n)}>{n}s</button>
+                  ))}
+                </div>
+              </div>
+              <button onClick={() => setIsOpen(false)} className="self-end text-xs font-bold text-yellow-400 px-2">完成</button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Lock, Sun } from 'lucide-react';
+
+interface FocusLayerProps {
+  canFocus: boolean;
+  canLock: boolean;
+  exposureRange: { min: number; max: number; step: number } | null;
+  exposure: number;
+  isLocked: boolean;
+  onFocus: (point: { x: number; y: number }, lock: boolean) => void; // Screen coordinates
+  onExposureChange: (value: number) => void;
+}
+
+const LONG_PRESS_MS = 600;
+const MOVE_THRESHOLD = 10;
+const EXPOSURE_DRAG_PX = 300; // Vertical drag that sweeps the whole compensation range
+const MARKER_HIDE_MS = 1500;
+
+// Camera gestures on the bare preview: tap to focus, long press to lock AE/AF, vertical drag for exposure.
+// Sits under WireframeOverlay, which only claims touches that start on the guide itself.
+export const FocusLayer: React.FC<FocusLayerProps> = ({
+  canFocus,
+  canLock,
+  exposureRange,
+  exposure,
+  isLocked,
+  onFocus,
+  onExposureChange
+}) => {
+  const gesture = useRef<{
+    start: { x: number; y: number };
+    startExposure: number;
+    moved: boolean;
+    adjustingExposure: boolean;
+    longPressFired: boolean;
+  } | null>(null);
+  const longPressTimer = useRef<number | null>(null);
+  const hideTimer = useRef<number | null>(null);
+  const noticeTimer = useRef<number | null>(null);
+
+  const [marker, setMarker] = useState<{ x: number; y: number; key: number } | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => () => {
+    [longPressTimer, hideTimer, noticeTimer].forEach(t => { if (t.current) window.clearTimeout(t.current); });
+  }, []);
+
+  // The marker stays up while locked; otherwise it fades shortly after the last interaction
+  useEffect(() => {
+    if (hideTimer.current) window.clearTimeout(hideTimer.current);
+    if (!marker || isLocked) return;
+    hideTimer.current = window.setTimeout(() => setMarker(null), MARKER_HIDE_MS);
+  }, [marker, isLocked, exposure]);
+
+  const showNotice = (message: string) => {
+    setNotice(message);
+    if (noticeTimer.current) window.clearTimeout(noticeTimer.current);
+    noticeTimer.current = window.setTimeout(() => setNotice(null), 2000);
+  };
+
+  const cancelLongPress = () => {
+    if (longPressTimer.current) window.clearTimeout(longPressTimer.current);
+    longPressTimer.current = null;
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    cancelLongPress();
+    // Multi-finger touches are not camera gestures
+    if (e.touches.length !== 1) {
+      gesture.current = null;
+      return;
+    }
+
+    const start = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+    gesture.current = { start, startExposure: exposure, moved: false, adjustingExposure: false, longPressFired: false };
+
+    longPressTimer.current = window.setTimeout(() => {
+      const current = gesture.current;
+      if (!current || current.moved) return;
+      current.longPressFired = true;
+      if (!canLock) {
+        showNotice('此相機不支援鎖定對焦與曝光');
+        return;
+      }
+      setMarker({ ...start, key: Date.now() });
+      onFocus(start, true);
+      if (navigator.vibrate) navigator.vibrate(15);
+    }, LONG_PRESS_MS);
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    const current = gesture.current;
+    if (!current || e.touches.length !== 1) return;
+
+    const dx = e.touches[0].clientX - current.start.x;
+    const dy = e.touches[0].clientY - current.start.y;
+    if (!current.moved && Math.hypot(dx, dy) > MOVE_THRESHOLD) {
+      current.moved = true;
+      current.adjustingExposure = Math.abs(dy) > Math.abs(dx);
+      cancelLongPress();
+      if (current.adjustingExposure && !exposureRange) showNotice('此相機不支援曝光補償');
+    }
+    if (!current.adjustingExposure || !exposureRange) return;
+
+    // Drag up to brighten
+    const { min, max, step } = exposureRange;
+    const raw = current.startExposure - (dy / EXPOSURE_DRAG_PX) * (max - min);
+    const value = Math.max(min, Math.min(max, Math.round(raw / step) * step));
+    if (value !== exposure) onExposureChange(value);
+    if (!marker) setMarker({ x: window.innerWidth / 2, y: window.innerHeight / 2, key: Date.now() });
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    cancelLongPress();
+    const current = gesture.current;
+    gesture.current = null;
+    if (!current || current.moved || current.longPressFired || e.touches.length > 0) return;
+
+    // Plain tap
+    if (!canFocus) {
+      showNotice('此相機不支援點擊對焦');
+      return;
+    }
+    setMarker({ ...current.start, key: Date.now() });
+    onFocus(current.start, false);
+  };
+
+  const exposureFraction = exposureRange ? (exposure - exposureRange.min) / (exposureRange.max - exposureRange.min) : 0.5;
+
+  return (
+    <div
+      className="absolute inset-0 z-[8] touch-none"
+      onTouchStart={handleTouchStart}
+      onTouchMove={handleTouchMove}
+      onTouchEnd={handleTouchEnd}
+      onTouchCancel={handleTouchEnd}
+    >
+      {marker && (
+        <div
+          key={marker.key}
+          className="absolute pointer-events-none animate-fade-in"
+          style={{ left: marker.x - 36, top: marker.y - 36 }}
+        >
+          <div className={`w-[72px] h-[72px] border ${isLocked ? 'border-yellow-400' : 'border-yellow-300/90'}`} />
+
+          {/* Exposure Scale */}
+          {exposureRange && (
+            <div className="absolute left-[84px] top-0 h-[72px] flex flex-col items-center">
+              <div className="relative w-px h-full bg-yellow-300/60">
+                <Sun
+                  className="absolute left-1/2 -translate-x-1/2 -translate-y-1/2 w-4 h-4 text-yellow-300"
+                  style={{ top: `${(1 - exposureFraction) * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+          {exposure !== 0 && (
+            <span className="absolute left-0 right-0 -bottom-5 text-center text-[10px] font-bold text-yellow-300">
+              {exposure > 0 ? '+' : ''}{exposure.toFixed(1)} EV
+            </span>
+          )}
+        </div>
+      )}
+
+      {isLocked && (
+        <div className="absolute top-40 left-0 right-0 flex justify-center pointer-events-none">
+          <span className="flex items-center gap-1.5 px-3 py-1 rounded-md bg-yellow-400 text-black text-[10px] font-extrabold tracking-widest">
+            <Lock className="w-3 h-3" /> AE/AF 鎖定
+          </span>
+        </div>
+      )}
+
+      {notice && (
+        <div className="absolute top-48 left-0 right-0 flex justify-center pointer-events-none animate-fade-in">
+          <span className="px-4 py-1.5 rounded-full bg-black/60 backdrop-blur-md text-white/80 text-xs">{notice}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { LEVEL_TOLERANCE_DEG } from '../constants';
+import { getHorizonAngles } from '../utils/orientation';
+
+// Horizon line that counter-rotates with the phone; snaps flat and green once within tolerance
+export const LevelIndicator: React.FC = () => {
+  const [angles, setAngles] = useState<{ roll: number; pitch: number; isFlat: boolean } | null>(null);
+
+  useEffect(() => {
+    const handleOrientation = (e: DeviceOrientationEvent) => {
+      if (e.beta === null || e.gamma === null) return;
+      setAngles(getHorizonAngles(e.beta, e.gamma, window.screen.orientation?.angle ?? 0));
+    };
+
+    window.addEventListener('deviceorientation', handleOrientation);
+    return () => window.removeEventListener('deviceorientation', handleOrientation);
+  }, []);
+
+  if (!angles) return null;
+
+  // Pointing at the floor or sky: show the forward / back tilt only
+  if (angles.isFlat) {
+    return (
+      <div className="absolute inset-0 z-[5] flex items-center justify-center pointer-events-none">
+        <span className="px-3 py-1 rounded-full bg-black/40 text-white/80 text-[10px] font-bold tracking-widest">
+          {Math.round(Math.abs(angles.pitch))}°
+        </span>
+      </div>
+    );
+  }
+
+  const isLevel = Math.abs(angles.roll) < LEVEL_TOLERANCE_DEG;
+  const rotation = isLevel ? 0 : -angles.roll;
+  const color = isLevel ? 'bg-green-400' : 'bg-white/80';
+
+  return (
+    <div className="absolute inset-0 z-[5] flex items-center justify-center pointer-events-none">
+      {/* Fixed reference ticks */}
+      <div className="absolute w-56 flex justify-between">
+        <div className={`w-6 h-0.5 ${isLevel ? 'bg-green-400' : 'bg-white/40'}`} />
+        <div className={`w-6 h-0.5 ${isLevel ? 'bg-green-400' : 'bg-white/40'}`} />
+      </div>
+
+      {/* Horizon line */}
+      <div
+        className="absolute w-40 flex items-center justify-between transition-transform duration-75"
+        style={{ transform: `rotate(${rotation}deg)` }}
+      >
+        <div className={`w-16 h-0.5 ${color}`} />
+        <div className={`w-16 h-0.5 ${color}`} />
+      </div>
+
+      <span className={`absolute mt-10 text-[10px] font-bold tracking-widest ${isLevel ? 'text-green-400' : 'text-white/70'}`}>
+        {isLevel ? '0°' : `${Math.round(angles.roll)}°`}
+      </span>
+    </div>
+  );
+};
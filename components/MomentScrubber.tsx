@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Loader2 } from 'lucide-react';
+import { CaptureRecord } from '../types';
+import { getCaptureBlob, getMomentFrames } from '../utils/galleryStore';
+
+interface MomentScrubberProps {
+  record: CaptureRecord; // Must have momentFrames
+  onSelect: (index: number) => Promise<void>;
+}
+
+// Scrub through the frames buffered before the shutter and make one of them the photo.
+// Frames are previewed unedited over the viewer while scrubbing.
+export const MomentScrubber: React.FC<MomentScrubberProps> = ({ record, onSelect }) => {
+  const [urls, setUrls] = useState<string[] | null>(null);
+  const [index, setIndex] = useState(record.momentIndex ?? 0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setIndex(record.momentIndex ?? 0);
+
+    let cancelled = false;
+    let objectUrls: string[] = [];
+    Promise.all([getMomentFrames(record.id), getCaptureBlob(record.id)])
+      .then(([frames, current]) => {
+        if (cancelled || !frames || !current) return;
+        objectUrls = frames.map(frame => URL.createObjectURL(frame ?? current));
+        setUrls(objectUrls);
+      })
+      .catch((e) => console.warn('Failed to load moment frames', e));
+
+    return () => {
+      cancelled = true;
+      objectUrls.forEach(url => URL.revokeObjectURL(url));
+      setUrls(null);
+    };
+  }, [record.id, record.momentIndex]);
+
+  if (!urls) return null;
+
+  const isCurrent = index === record.momentIndex;
+  const isShutterFrame = index === urls.length - 1;
+
+  const handleSelect = async () => {
+    setIsSaving(true);
+    try {
+      await onSelect(index);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      {!isCurrent && (
+        <div className="absolute inset-0 bg-black flex items-center justify-center pointer-events-none">
+          <img src={urls[index]} alt={`Moment frame ${index + 1}`} className="w-full h-full object-contain" draggable={false} />
+        </div>
+      )}
+
+      <div className="absolute bottom-36 left-6 right-6 pointer-events-auto bg-black/60 backdrop-blur-2xl border border-white/10 rounded-2xl px-4 py-3 flex items-center gap-3 shadow-2xl">
+        <div className="flex flex-col flex-shrink-0 w-14">
+          <span className="text-[9px] font-bold text-white/40 tracking-[0.2em] uppercase">Moment</span>
+          <span className="text-xs font-bold text-white tabular-nums">
+            {isShutterFrame ? '快門' : `-${urls.length - 1 - index}`}
+          </span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={urls.length - 1}
+          step={1}
+          value={index}
+          onChange={(e) => setIndex(Number(e.target.value))}
+          className="flex-1 accent-yellow-400"
+          aria-label="Moment Frame"
+        />
+        <button
+          onClick={handleSelect}
+          disabled={isCurrent || isSaving}
+          className="flex-shrink-0 h-9 px-3 rounded-full bg-yellow-400 text-black text-xs font-bold flex items-center gap-1 disabled:opacity-30 active:scale-95 transition-all"
+        >
+          {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+          使用這張
+        </button>
+      </div>
+    </>
+  );
+};
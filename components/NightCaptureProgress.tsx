@@ -0,0 +1,34 @@
+import React from 'react';
+import { Moon } from 'lucide-react';
+
+const RADIUS = 44;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+// "Hold still" ring shown while night mode gathers and stacks frames
+export const NightCaptureProgress: React.FC<{ progress: number }> = ({ progress }) => {
+  return (
+    <div className="absolute inset-0 z-40 flex flex-col items-center justify-center gap-4 pointer-events-none animate-fade-in">
+      <div className="relative w-28 h-28">
+        <svg viewBox="0 0 100 100" className="w-full h-full -rotate-90">
+          <circle cx="50" cy="50" r={RADIUS} fill="rgba(0,0,0,0.4)" stroke="rgba(255,255,255,0.2)" strokeWidth="4" />
+          <circle
+            cx="50"
+            cy="50"
+            r={RADIUS}
+            fill="none"
+            stroke="#facc15"
+            strokeWidth="4"
+            strokeLinecap="round"
+            strokeDasharray={CIRCUMFERENCE}
+            strokeDashoffset={CIRCUMFERENCE * (1 - Math.min(1, progress))}
+            style={{ transition: 'stroke-dashoffset 120ms linear' }}
+          />
+        </svg>
+        <Moon className="absolute inset-0 m-auto w-8 h-8 text-yellow-400" />
+      </div>
+      <div className="px-4 py-1.5 rounded-full bg-black/50 backdrop-blur-md text-white text-sm font-bold tracking-widest">
+        請保持不動
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Crop, FlipHorizontal, FlipVertical, Loader2, RotateCw, SlidersHorizontal, Undo2 } from 'lucide-react';
+import { CaptureRecord, PhotoEdits } from '../types';
+import { CROP_ASPECTS, DEFAULT_EDITS } from '../constants';
+import { getCaptureBlob } from '../utils/galleryStore';
+import { isIdentityEdits, renderEdits } from '../utils/photoEdits';
+
+type EditorTool = 'crop' | 'rotate' | 'adjust';
+type Adjustment = 'exposure' | 'contrast' | 'saturation' | 'warmth' | 'vignette';
+
+interface PhotoEditorProps {
+  record: CaptureRecord;
+  onSave: (edits: PhotoEdits | null) => Promise<void>;
+  onClose: () => void;
+}
+
+const PREVIEW_MAX_EDGE = 1080;
+
+const ADJUSTMENTS: { id: Adjustment; label: string; min: number }[] = [
+  { id: 'exposure', label: '曝光', min: -1 },
+  { id: 'contrast', label: '對比', min: -1 },
+  { id: 'saturation', label: '飽和度', min: -1 },
+  { id: 'warmth', label: '色溫', min: -1 },
+  { id: 'vignette', label: '暗角', min: 0 },
+];
+
+const TOOLS: { id: EditorTool; label: string; icon: React.ReactNode }[] = [
+  { id: 'crop', label: '裁切', icon: <Crop className="w-5 h-5" /> },
+  { id: 'rotate', label: '旋轉', icon: <RotateCw className="w-5 h-5" /> },
+  { id: 'adjust', label: '調整', icon: <SlidersHorizontal className="w-5 h-5" /> },
+];
+
+export const PhotoEditor: React.FC<PhotoEditorProps> = ({ record, onSave, onClose }) => {
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const sourceRef = useRef<HTMLCanvasElement | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  const [edits, setEdits] = useState<PhotoEdits>(record.edits ?? DEFAULT_EDITS);
+  const [tool, setTool] = useState<EditorTool>('adjust');
+  const [adjustment, setAdjustment] = useState<Adjustment>('exposure');
+  const [isShowingOriginal, setIsShowingOriginal] = useState(false);
+  const [isReady, setIsReady] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Decode the original once into a preview-sized canvas; every edit re-renders from it
+  useEffect(() => {
+    let cancelled = false;
+
+    getCaptureBlob(record.id)
+      .then(async (blob) => {
+        if (!blob) throw new Error('Missing capture');
+        const bitmap = await createImageBitmap(blob);
+        const ratio = Math.min(1, PREVIEW_MAX_EDGE / Math.max(bitmap.width, bitmap.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(bitmap.width * ratio);
+        canvas.height = Math.round(bitmap.height * ratio);
+        canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        bitmap.close();
+
+        if (!cancelled) {
+          sourceRef.current = canvas;
+          setIsReady(true);
+        }
+      })
+      .catch((e) => console.error("Editor load failed", e));
+
+    return () => { cancelled = true; };
+  }, [record.id]);
+
+  useEffect(() => {
+    if (!isReady || !sourceRef.current || !previewRef.current) return;
+
+    if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    frameRef.current = requestAnimationFrame(() => {
+      if (sourceRef.current && previewRef.current) {
+        renderEdits(sourceRef.current, isShowingOriginal ? DEFAULT_EDITS : edits, previewRef.current);
+      }
+    });
+  }, [edits, isShowingOriginal, isReady]);
+
+  const update = (patch: Partial<PhotoEdits>) => setEdits(prev => ({ ...prev, ...patch }));
+
+  const handleSave = async (next: PhotoEdits | null) => {
+    setIsSaving(true);
+    try {
+      await onSave(next && !isIdentityEdits(next) ? next : null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const pillClass = (active: boolean) => `
+    flex-shrink-0 px-4 py-2 rounded-full text-xs font-bold tracking-wider border transition-all
+    ${active ? 'bg-white text-black border-white' : 'bg-white/5 text-white/70 border-white/10 active:bg-white/20'}
+  `;
+
+  const renderToolPanel = () => {
+    if (tool === 'crop') {
+      return (
+        <div className="flex overflow-x-auto no-scrollbar gap-2 px-4">
+          {CROP_ASPECTS.map(aspect => (
+            <button key={aspect.id} onClick={() => update({ crop: aspect.id })} className={pillClass(edits.crop === aspect.id)}>
+              {aspect.label}
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    if (tool === 'rotate') {
+      return (
+        <div className="flex flex-col gap-4 px-6">
+          <label className="flex items-center gap-4 text-[10px] font-bold text-white/40 tracking-[0.2em] uppercase">
+            <span className="w-10">{edits.straighten.toFixed(1)}°</span>
+            <input
+              type="range" min={-45} max={45} step={0.5}
+              value={edits.straighten}
+              onChange={(e) => update({ straighten: Number(e.target.value) })}
+              onDoubleClick={() => update({ straighten: 0 })}
+              className="flex-1 accent-yellow-400"
+            />
+          </label>
+          <div className="flex justify-center gap-3">
+            <button onClick={() => update({ quarterTurns: (edits.quarterTurns + 1) % 4 })} className={pillClass(false)}>
+              <RotateCw className="w-4 h-4" />
+            </button>
+            <button onClick={() => update({ flipH: !edits.flipH })} className={pillClass(edits.flipH)}>
+              <FlipHorizontal className="w-4 h-4" />
+            </button>
+            <button onClick={() => update({ flipV: !edits.flipV })} className={pillClass(edits.flipV)}>
+              <FlipVertical className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    const active = ADJUSTMENTS.find(a => a.id === adjustment)!;
+    return (
+      <div className="flex flex-col gap-4">
+        <div className="flex overflow-x-auto no-scrollbar gap-2 px-4">
+          {ADJUSTMENTS.map(a => (
+            <button key={a.id} onClick={() => setAdjustment(a.id)} className={pillClass(adjustment === a.id)}>
+              {a.label}{edits[a.id] !== 0 && ' •'}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-4 px-6 text-[10px] font-bold text-white/40 tracking-[0.2em]">
+          <span className="w-10">{Math.round(edits[adjustment] * 100)}</span>
+          <input
+            type="range" min={active.min * 100} max={100}
+            value={Math.round(edits[adjustment] * 100)}
+            onChange={(e) => update({ [adjustment]: Number(e.target.value) / 100 })}
+            onDoubleClick={() => update({ [adjustment]: 0 })}
+            className="flex-1 accent-yellow-400"
+          />
+        </label>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black flex flex-col animate-fade-in">
+      {/* Top Bar */}
+      <div className="flex items-center justify-between px-6 pt-12 pb-4">
+        <button onClick={onClose} className="text-sm font-bold text-white/70 px-2 py-2">取消</button>
+        <button
+          onClick={() => handleSave(null)}
+          disabled={isSaving || (!record.edits && isIdentityEdits(edits))}
+          className="flex items-center gap-1.5 text-xs font-bold text-white/70 px-3 py-2 rounded-full bg-white/5 border border-white/10 disabled:opacity-30"
+        >
+          <Undo2 className="w-3.5 h-3.5" /> 還原原圖
+        </button>
+        <button
+          onClick={() => handleSave(edits)}
+          disabled={isSaving}
+          className="text-sm font-extrabold text-yellow-400 px-2 py-2 disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="w-5 h-5 animate-spin" /> : '完成'}
+        </button>
+      </div>
+
+      {/* Preview (press and hold to see the original) */}
+      <div
+        className="flex-1 relative flex items-center justify-center overflow-hidden px-4"
+        onPointerDown={() => setIsShowingOriginal(true)}
+        onPointerUp={() => setIsShowingOriginal(false)}
+        onPointerLeave={() => setIsShowingOriginal(false)}
+      >
+        {!isReady && <Loader2 className="w-8 h-8 text-white/50 animate-spin" />}
+        <canvas ref={previewRef} className={`max-w-full max-h-full object-contain ${isReady ? '' : 'hidden'}`} />
+        {isShowingOriginal && (
+          <span className="absolute top-4 px-3 py-1 rounded-full bg-black/60 text-[10px] font-bold tracking-widest text-white/80">ORIGINAL</span>
+        )}
+      </div>
+
+      {/* Tool Panel */}
+      <div className="pt-5 pb-4 min-h-[120px]">
+        {renderToolPanel()}
+      </div>
+
+      {/* Tool Tabs */}
+      <div className="flex justify-around px-6 pb-10 pt-2 border-t border-white/5">
+        {TOOLS.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTool(t.id)}
+            className={`flex flex-col items-center gap-1 px-4 py-2 transition-colors ${tool === t.id ? 'text-yellow-400' : 'text-white/50'}`}
+          >
+            {t.icon}
+            <span className="text-[10px] font-bold tracking-widest">{t.label}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,289 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { StoredImage } from './StoredImage';
+import { StoredVideo } from './StoredVideo';
+import { CaptureRecord, TouchState } from '../types';
+import { getDistance, getMidpoint } from '../utils/geometry';
+import { getEditedSize, isIdentityEdits } from '../utils/photoEdits';
+
+interface PhotoViewerProps {
+  records: CaptureRecord[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onDismiss: () => void;
+}
+
+interface ViewState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MAX_SCALE = 5;
+const DOUBLE_TAP_SCALE = 2.5;
+const DOUBLE_TAP_MS = 280;
+const PAGE_THRESHOLD = 0.2; // Fraction of the width a swipe must travel to change photo
+const DISMISS_THRESHOLD = 120;
+const SETTLE_MS = 250;
+
+const RESET_VIEW: ViewState = { scale: 1, x: 0, y: 0 };
+
+const getDisplaySize = (record: CaptureRecord) =>
+  isIdentityEdits(record.edits) ? record : getEditedSize(record.width, record.height, record.edits!);
+
+export const PhotoViewer: React.FC<PhotoViewerProps> = ({ records, index, onIndexChange, onDismiss }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeTouches = useRef<Map<number, TouchState>>(new Map());
+  const initialView = useRef<ViewState>(RESET_VIEW);
+  const initialGestureData = useRef<{
+    distance: number;
+    center: { x: number; y: number };
+    axis: 'none' | 'x' | 'y' | 'pan';
+    moved: boolean;
+  } | null>(null);
+  const lastTap = useRef<{ time: number; x: number; y: number } | null>(null);
+
+  const [view, setView] = useState<ViewState>(RESET_VIEW);
+  const [drag, setDrag] = useState({ x: 0, y: 0 }); // Paging / dismiss offset while unzoomed
+  const [isSettling, setIsSettling] = useState(false);
+
+  const record = records[index];
+  const isVideo = record?.kind === 'video'; // Videos page and dismiss but never zoom
+
+  // New photo: start unzoomed
+  useEffect(() => {
+    setView(RESET_VIEW);
+  }, [record?.id]);
+
+  const getContainerSize = () => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return { width: rect?.width ?? window.innerWidth, height: rect?.height ?? window.innerHeight, left: rect?.left ?? 0, top: rect?.top ?? 0 };
+  };
+
+  // Keep the zoomed image edges from pulling away from the viewport edges
+  const clampView = (next: ViewState): ViewState => {
+    const container = getContainerSize();
+    const size = getDisplaySize(record);
+    const fit = Math.min(container.width / size.width, container.height / size.height);
+    const maxX = Math.max(0, (size.width * fit * next.scale - container.width) / 2);
+    const maxY = Math.max(0, (size.height * fit * next.scale - container.height) / 2);
+    return {
+      scale: next.scale,
+      x: Math.max(-maxX, Math.min(maxX, next.x)),
+      y: Math.max(-maxY, Math.min(maxY, next.y)),
+    };
+  };
+
+  // Point relative to the container center, the origin of the image transform
+  const toCentered = (p: { x: number; y: number }) => {
+    const container = getContainerSize();
+    return { x: p.x - container.left - container.width / 2, y: p.y - container.top - container.height / 2 };
+  };
+
+  const zoomAround = (base: ViewState, point: { x: number; y: number }, scale: number): ViewState => {
+    const ratio = scale / base.scale;
+    return {
+      scale,
+      x: point.x - (point.x - base.x) * ratio,
+      y: point.y - (point.y - base.y) * ratio,
+    };
+  };
+
+  const settle = (after?: () => void) => {
+    setIsSettling(true);
+    window.setTimeout(() => {
+      setIsSettling(false);
+      after?.();
+    }, SETTLE_MS);
+  };
+
+  const updateTouches = (event: React.TouchEvent) => {
+    const map = new Map<number, TouchState>();
+    for (let i = 0; i < event.touches.length; i++) {
+      const t = event.touches[i];
+      map.set(t.identifier, { id: t.identifier, x: t.clientX, y: t.clientY });
+    }
+    return map;
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    if (isSettling) return;
+    activeTouches.current = updateTouches(e);
+    initialView.current = { ...view };
+
+    const points: TouchState[] = Array.from(activeTouches.current.values());
+
+    if (points.length === 2 && !isVideo) {
+      initialGestureData.current = {
+        distance: getDistance(points[0], points[1]),
+        center: toCentered(getMidpoint(points[0], points[1])),
+        axis: 'none',
+        moved: true,
+      };
+      setDrag({ x: 0, y: 0 });
+    } else if (points.length === 1) {
+      initialGestureData.current = {
+        distance: 0,
+        center: { x: points[0].x, y: points[0].y },
+        axis: view.scale > 1 ? 'pan' : 'none',
+        moved: false,
+      };
+    }
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    activeTouches.current = updateTouches(e);
+    const touches: TouchState[] = Array.from(activeTouches.current.values());
+    const initial = initialGestureData.current;
+    if (!initial) return;
+
+    if (touches.length === 2 && initial.distance > 0) {
+      // Pinch zoom; moving the midpoint pans at the same time
+      const scale = Math.max(1, Math.min(MAX_SCALE, initialView.current.scale * getDistance(touches[0], touches[1]) / initial.distance));
+      const center = toCentered(getMidpoint(touches[0], touches[1]));
+      const zoomed = zoomAround(initialView.current, initial.center, scale);
+      setView(clampView({ scale, x: zoomed.x + center.x - initial.center.x, y: zoomed.y + center.y - initial.center.y }));
+      return;
+    }
+
+    if (touches.length !== 1) return;
+    const dx = touches[0].x - initial.center.x;
+    const dy = touches[0].y - initial.center.y;
+    if (!initial.moved && Math.hypot(dx, dy) > 10) initial.moved = true;
+
+    if (initial.axis === 'pan') {
+      setView(clampView({ ...initialView.current, x: initialView.current.x + dx, y: initialView.current.y + dy }));
+      return;
+    }
+
+    // Unzoomed: lock to horizontal paging or downward dismiss once the drag direction is clear
+    if (initial.axis === 'none' && initial.moved) {
+      initial.axis = Math.abs(dx) > Math.abs(dy) ? 'x' : 'y';
+    }
+    if (initial.axis === 'x') {
+      const atEdge = (dx > 0 && index === 0) || (dx < 0 && index === records.length - 1);
+      setDrag({ x: atEdge ? dx / 3 : dx, y: 0 }); // Rubber band past the ends
+    } else if (initial.axis === 'y') {
+      setDrag({ x: 0, y: Math.max(0, dy) });
+    }
+  };
+
+  const handleDoubleTap = (point: { x: number; y: number }) => {
+    const centered = toCentered(point);
+    setView(view.scale > 1 ? RESET_VIEW : clampView(zoomAround(view, centered, DOUBLE_TAP_SCALE)));
+    settle();
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    const initial = initialGestureData.current;
+    activeTouches.current = updateTouches(e);
+
+    // Lifting one finger of a pinch: continue as a pan from here
+    if (activeTouches.current.size === 1 && initial) {
+      const [point]: TouchState[] = Array.from(activeTouches.current.values());
+      initialView.current = { ...view };
+      initialGestureData.current = { distance: 0, center: { x: point.x, y: point.y }, axis: view.scale > 1 ? 'pan' : 'none', moved: true };
+      return;
+    }
+    if (activeTouches.current.size > 0 || !initial) return;
+    initialGestureData.current = null;
+
+    // Tap: check for a double tap
+    if (!initial.moved) {
+      if (isVideo) return; // Taps belong to the player controls
+      const touch = e.changedTouches[0];
+      const now = Date.now();
+      const previous = lastTap.current;
+      if (previous && now - previous.time < DOUBLE_TAP_MS && Math.hypot(touch.clientX - previous.x, touch.clientY - previous.y) < 30) {
+        lastTap.current = null;
+        handleDoubleTap({ x: touch.clientX, y: touch.clientY });
+      } else {
+        lastTap.current = { time: now, x: touch.clientX, y: touch.clientY };
+      }
+      return;
+    }
+
+    const { width } = getContainerSize();
+
+    if (initial.axis === 'x') {
+      const direction = drag.x < -width * PAGE_THRESHOLD ? 1 : drag.x > width * PAGE_THRESHOLD ? -1 : 0;
+      const target = index + direction;
+      if (direction !== 0 && target >= 0 && target < records.length) {
+        setDrag({ x: -direction * width, y: 0 });
+        settle(() => {
+          setDrag({ x: 0, y: 0 });
+          onIndexChange(target);
+        });
+      } else {
+        setDrag({ x: 0, y: 0 });
+        settle();
+      }
+    } else if (initial.axis === 'y') {
+      if (drag.y > DISMISS_THRESHOLD) {
+        onDismiss();
+      } else {
+        setDrag({ x: 0, y: 0 });
+        settle();
+      }
+    }
+  };
+
+  if (!record) return null;
+
+  const transition = isSettling ? `transform ${SETTLE_MS}ms ease-out, opacity ${SETTLE_MS}ms ease-out` : 'none';
+  const dismissProgress = Math.min(1, drag.y / (DISMISS_THRESHOLD * 3));
+
+  const renderPage = (offset: number) => {
+    const page = records[index + offset];
+    if (!page) return null;
+    const isCurrent = offset === 0;
+
+    return (
+      <div
+        key={page.id}
+        className="absolute inset-0 flex items-center justify-center"
+        style={{ transform: `translateX(${offset * 100}%)` }}
+      >
+        <div
+          className="w-full h-full"
+          style={isCurrent ? {
+            transform: `translate(${view.x}px, ${view.y + drag.y}px) scale(${view.scale * (1 - dismissProgress * 0.3)})`,
+            transformOrigin: 'center center',
+            transition,
+          } : undefined}
+        >
+          {/* Videos are padded so the player controls clear the review chrome */}
+          {page.kind === 'video' ? (
+            <StoredVideo captureId={page.id} active={isCurrent} className="w-full h-full object-contain pt-28 pb-36" />
+          ) : (
+            <StoredImage
+              key={page.momentIndex ?? 0} // Picking another moment frame swaps the stored photo under the same id
+              captureId={page.id}
+              variant="full"
+              edits={page.edits}
+              alt="Review"
+              className="w-full h-full object-contain"
+            />
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 overflow-hidden touch-none"
+      style={{ backgroundColor: `rgba(0,0,0,${1 - dismissProgress})`, transition }}
+      onTouchStart={handleTouchStart}
+      onTouchMove={handleTouchMove}
+      onTouchEnd={handleTouchEnd}
+      onTouchCancel={handleTouchEnd}
+    >
+      <div className="absolute inset-0" style={{ transform: `translateX(${drag.x}px)`, transition }}>
+        {renderPage(-1)}
+        {renderPage(0)}
+        {renderPage(1)}
+      </div>
+    </div>
+  );
+};
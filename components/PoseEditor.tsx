@@ -0,0 +1,205 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FlipHorizontal, Loader2, Redo2, RotateCcw, Undo2 } from 'lucide-react';
+import { KeypointName, Pose, PoseSkeleton, TouchState } from '../types';
+import { getDistance } from '../utils/geometry';
+import { getRestLengths, getSkeletonGeometry, mirrorSkeleton, moveJoint, parseViewBox } from '../utils/skeleton';
+import { SkeletonShape } from './SkeletonShape';
+
+interface PoseEditorProps {
+  pose: Pose; // Must have a skeleton
+  error: string | null; // Last save failure
+  onSave: (skeleton: PoseSkeleton, name: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const GRAB_RADIUS = 36; // px on screen around a joint that still picks it up
+const HISTORY_LIMIT = 50;
+
+const pillClass = `flex items-center gap-1.5 px-3 py-2 rounded-full text-xs font-bold bg-white/5 border border-white/10 text-white/80 active:bg-white/20 disabled:opacity-30`;
+
+// Full-screen skeleton editor: drag a joint to bend the figure (the torso stays rigid, limb bones stay
+// near their original length and the limb below follows), mirror it, undo and redo. Saving creates a new library pose.
+export const PoseEditor: React.FC<PoseEditorProps> = ({ pose, error, onSave, onClose }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const activeTouches = useRef<Map<number, TouchState>>(new Map());
+  const drag = useRef<{ joint: KeypointName; touchId: number; start: TouchState; origin: { x: number; y: number } } | null>(null);
+
+  const [history, setHistory] = useState<PoseSkeleton[]>([pose.skeleton ?? {}]);
+  const [index, setIndex] = useState(0);
+  const [draft, setDraft] = useState<PoseSkeleton | null>(null); // While a finger is down; committed on release
+  const [activeJoint, setActiveJoint] = useState<KeypointName | null>(null);
+  const [name, setName] = useState(`${pose.name} 編輯`);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Same box the overlay draws the skeleton in: the pose's viewBox, or the screen for poses without one
+  const viewBox = pose.viewBox ?? `0 0 ${window.innerWidth} ${window.innerHeight}`;
+  const box = useMemo(() => parseViewBox(viewBox), [viewBox]);
+  const aspect = box.width / box.height;
+  const restLengths = useMemo(() => getRestLengths(pose.skeleton ?? {}, aspect), [pose.skeleton, aspect]);
+
+  const skeleton = draft ?? history[index];
+  const geometry = getSkeletonGeometry(skeleton, box);
+  const lineWidth = Math.max(box.width, box.height) * 0.02;
+  const unit = Math.max(box.width, box.height) / 100;
+
+  const commit = (next: PoseSkeleton) => {
+    const kept = history.slice(Math.max(0, index + 1 - HISTORY_LIMIT), index + 1);
+    setHistory([...kept, next]);
+    setIndex(kept.length);
+  };
+
+  // Screen position of a joint, from the svg's own viewBox-to-screen mapping
+  const toScreen = (name: KeypointName): TouchState | null => {
+    const k = skeleton[name];
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!k || !matrix) return null;
+    const point = new DOMPoint(box.x + k.x * box.width, box.y + k.y * box.height).matrixTransform(matrix);
+    return { id: -1, x: point.x, y: point.y };
+  };
+
+  const updateTouches = (event: React.TouchEvent) => {
+    const map = new Map<number, TouchState>();
+    for (let i = 0; i < event.touches.length; i++) {
+      const t = event.touches[i];
+      map.set(t.identifier, { id: t.identifier, x: t.clientX, y: t.clientY });
+    }
+    return map;
+  };
+
+  // One finger picks up the nearest joint within reach; a second finger cancels the drag
+  const handleTouchStart = (e: React.TouchEvent) => {
+    activeTouches.current = updateTouches(e);
+    const points: TouchState[] = Array.from(activeTouches.current.values());
+
+    if (points.length !== 1) {
+      drag.current = null;
+      setDraft(null);
+      setActiveJoint(null);
+      return;
+    }
+
+    const touch = points[0];
+    const nearest = (Object.keys(skeleton) as KeypointName[])
+      .map(joint => ({ joint, point: toScreen(joint) }))
+      .filter((j): j is { joint: KeypointName; point: TouchState } => !!j.point)
+      .map(j => ({ ...j, distance: getDistance(touch, j.point) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+    if (!nearest || nearest.distance > GRAB_RADIUS) return;
+
+    drag.current = { joint: nearest.joint, touchId: touch.id, start: touch, origin: { ...skeleton[nearest.joint]! } };
+    setActiveJoint(nearest.joint);
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    activeTouches.current = updateTouches(e);
+    const current = drag.current;
+    const touch = current && activeTouches.current.get(current.touchId);
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!current || !touch || !rect) return;
+
+    // The svg letterboxes the box, so one screen px is the same fraction of the box on both axes
+    const scale = Math.min(rect.width / box.width, rect.height / box.height);
+    const target = {
+      x: current.origin.x + (touch.x - current.start.x) / (box.width * scale),
+      y: current.origin.y + (touch.y - current.start.y) / (box.height * scale),
+    };
+    setDraft(moveJoint(history[index], current.joint, target, restLengths, aspect));
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    activeTouches.current = updateTouches(e);
+    if (drag.current && !activeTouches.current.has(drag.current.touchId)) {
+      if (draft) commit(draft);
+      drag.current = null;
+      setDraft(null);
+      setActiveJoint(null);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(history[index], name.trim() || `${pose.name} 編輯`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[170] bg-black flex flex-col animate-fade-in">
+      {/* Top Bar */}
+      <div className="flex items-center justify-between gap-3 px-6 pt-12 pb-4">
+        <button onClick={onClose} className="text-sm font-bold text-white/70 px-2 py-2">取消</button>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={40}
+          className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-full px-4 py-2 text-sm text-white text-center outline-none focus:border-white/30"
+          aria-label="Pose Name"
+        />
+        <button
+          onClick={handleSave}
+          disabled={isSaving || history[index] === history[0]}
+          className="text-sm font-extrabold text-yellow-400 px-2 py-2 disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="w-5 h-5 animate-spin" /> : '儲存'}
+        </button>
+      </div>
+
+      {error && <p className="mx-6 mb-2 text-xs text-red-400 text-center">{error}</p>}
+
+      {/* Canvas: the original outline stays behind the figure as a reference */}
+      <div className="flex-1 relative flex items-center justify-center overflow-hidden px-4">
+        <svg
+          ref={svgRef}
+          viewBox={viewBox}
+          className="w-full h-full touch-none"
+          onTouchStart={handleTouchStart}
+          onTouchMove={handleTouchMove}
+          onTouchEnd={handleTouchEnd}
+          onTouchCancel={handleTouchEnd}
+        >
+          <rect x={box.x} y={box.y} width={box.width} height={box.height} fill="none" stroke="white" strokeOpacity={0.15} strokeWidth={unit * 0.3} strokeDasharray={`${unit} ${unit}`} />
+          {pose.svgPath && (
+            <path d={pose.svgPath} fill="none" stroke="white" strokeOpacity={0.2} strokeWidth={unit * 0.4} strokeLinecap="round" strokeLinejoin="round" />
+          )}
+          <SkeletonShape geometry={geometry} lineWidth={lineWidth} />
+          {(Object.keys(skeleton) as KeypointName[]).map(joint => {
+            const k = skeleton[joint]!;
+            return (
+              <circle
+                key={joint}
+                cx={box.x + k.x * box.width}
+                cy={box.y + k.y * box.height}
+                r={joint === activeJoint ? lineWidth * 2.5 : lineWidth * 1.6}
+                fill={joint === activeJoint ? '#facc15' : 'white'}
+                fillOpacity={joint === activeJoint ? 0.5 : 0.2}
+                stroke="#facc15"
+                strokeWidth={lineWidth * 0.3}
+              />
+            );
+          })}
+        </svg>
+        <span className="absolute bottom-3 px-3 py-1 rounded-full bg-black/60 text-[10px] font-bold tracking-widest text-white/60 pointer-events-none">
+          拖曳關節調整姿勢
+        </span>
+      </div>
+
+      {/* Tools */}
+      <div className="flex justify-center gap-2 px-6 pb-10 pt-4 border-t border-white/5">
+        <button onClick={() => setIndex(i => i - 1)} disabled={index === 0} className={pillClass}>
+          <Undo2 className="w-3.5 h-3.5" /> 復原
+        </button>
+        <button onClick={() => setIndex(i => i + 1)} disabled={index === history.length - 1} className={pillClass}>
+          <Redo2 className="w-3.5 h-3.5" /> 重做
+        </button>
+        <button onClick={() => commit(mirrorSkeleton(history[index]))} className={pillClass}>
+          <FlipHorizontal className="w-3.5 h-3.5" /> 左右鏡像
+        </button>
+        <button onClick={() => commit(history[0])} disabled={history[index] === history[0]} className={pillClass}>
+          <RotateCcw className="w-3.5 h-3.5" /> 重設
+        </button>
+      </div>
+    </div>
+  );
+};
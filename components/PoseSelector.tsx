@@ -1,53 +1,399 @@
-import React from 'react';
-import { Pose } from '../types';
-import { POSES } from '../constants';
+import React, { useMemo, useRef, useState } from 'react';
+import { X, Search, Star, History, Check, Upload, Trash2, Loader2, Sparkles, Share2, CheckCircle2, Circle, PencilRuler, ScanLine } from 'lucide-react';
+import { AIPoseRecord, Pose, PoseCategory } from '../types';
+import { POSE_CATEGORIES } from '../constants';
+import { matchesPoseQuery } from '../utils/poseLibrary';
+import { POSE_IMPORT_ACCEPT } from '../utils/poseImport';
+import { PoseThumbnail } from './PoseThumbnail';
+import { AIGuideButton } from './Controls';
+import { AIPoseHistory } from './AIPoseHistory';
+
+type LibraryView = 'all' | 'favorites' | 'recents' | 'mine' | 'ai';
 
 interface PoseSelectorProps {
+  poses: Pose[];
   selectedPoseId: string | null;
-  onSelectPose: (pose: Pose | null) => void;
+  favorites: string[];
+  recents: string[];
+  onSelectPose: (pose: Pose) => void;
+  onClearPose: () => void;
+  onToggleFavorite: (poseId: string) => void;
+  isGenerating: boolean;
+  onGeneratePose: () => void;
+  aiHistory: AIPoseRecord[];
+  onSaveAIPose: (record: AIPoseRecord) => void;
+  onRenameAIPose: (record: AIPoseRecord) => void;
+  onDeleteAIPose: (record: AIPoseRecord) => void;
+  isImporting: boolean;
+  error: string | null; // Last import / delete failure
+  onImportFiles: (files: File[]) => void; // From the file picker or dropped on the sheet
+  onExportPoses: (poses: Pose[], meta: { name: string; author?: string }) => void; // As a .posepack
+  onDeletePose: (pose: Pose) => void; // Only offered for poses the user added
+  onEditPose: (pose: Pose) => void; // Only offered for poses with a skeleton
+  onTracePhoto: (file: File) => void; // Opens the on-device tracer on a picked photo
+  onClose: () => void;
 }
 
-export const PoseSelector: React.FC<PoseSelectorProps> = ({ selectedPoseId, onSelectPose }) => {
+const LIBRARY_VIEWS: { id: LibraryView; label: string }[] = [
+  { id: 'all', label: '全部' },
+  { id: 'favorites', label: '收藏' },
+  { id: 'recents', label: '最近' },
+  { id: 'mine', label: '我的' },
+  { id: 'ai', label: 'AI 紀錄' },
+];
+
+const isCustomPose = (pose: Pose) => pose.createdAt !== undefined;
+
+const chipClass = (active: boolean) => `
+  flex-shrink-0 px-3 py-1.5 rounded-full text-[11px] font-bold border transition-all
+  ${active ? 'bg-white text-black border-white' : 'bg-white/5 text-white/70 border-white/10 active:bg-white/20'}
+`;
+
+// Bottom sheet pose library: browse by category, search, favorites, recents and AI history; tapping a pose opens a larger preview.
+// Artwork or .posepack files dropped anywhere on the sheet are imported; 匯出 picks poses to share as a .posepack.
+export const PoseSelector: React.FC<PoseSelectorProps> = ({
+  poses,
+  selectedPoseId,
+  favorites,
+  recents,
+  onSelectPose,
+  onClearPose,
+  onToggleFavorite,
+  isGenerating,
+  onGeneratePose,
+  aiHistory,
+  onSaveAIPose,
+  onRenameAIPose,
+  onDeleteAIPose,
+  isImporting,
+  error,
+  onImportFiles,
+  onExportPoses,
+  onDeletePose,
+  onEditPose,
+  onTracePhoto,
+  onClose,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const traceInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [view, setView] = useState<LibraryView>('all');
+  const [category, setCategory] = useState<PoseCategory | null>(null);
+  const [query, setQuery] = useState('');
+  const [previewPose, setPreviewPose] = useState<Pose | null>(null);
+  const [exportIds, setExportIds] = useState<Set<string> | null>(null); // Non-null while picking poses for a pack
+  const [packName, setPackName] = useState('');
+  const [packAuthor, setPackAuthor] = useState('');
+
+  const visiblePoses = useMemo(() => {
+    const source = view === 'favorites'
+      ? poses.filter(p => favorites.includes(p.id))
+      : view === 'recents'
+        ? recents.map(id => poses.find(p => p.id === id)).filter((p): p is Pose => !!p)
+        : view === 'mine'
+          ? poses.filter(isCustomPose)
+          : poses;
+    return source.filter(p => (!category || p.category === category) && matchesPoseQuery(p, query));
+  }, [poses, favorites, recents, view, category, query]);
+
+  const emptyMessage = view === 'favorites' && favorites.length === 0
+    ? '點預覽裡的星號，把常用的姿勢加入收藏'
+    : view === 'recents' && recents.length === 0
+      ? '還沒有使用過任何姿勢'
+      : view === 'mine' && !poses.some(isCustomPose)
+        ? '點右上角匯入，或把 SVG / PNG 線框拖曳到這裡；AI 紀錄裡的姿勢也可以存到這裡'
+        : '找不到符合的姿勢';
+
+  const visibleHistory = aiHistory.filter(r => matchesPoseQuery(r.pose, query));
+  const savedIds = new Set(poses.filter(isCustomPose).map(p => p.id));
+
+  const toggleExportPose = (poseId: string) => {
+    setExportIds(prev => {
+      const next = new Set(prev);
+      if (next.has(poseId)) next.delete(poseId);
+      else next.add(poseId);
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    if (!exportIds || exportIds.size === 0 || !packName.trim()) return;
+    onExportPoses(poses.filter(p => exportIds.has(p.id)), { name: packName.trim(), author: packAuthor.trim() || undefined });
+    setExportIds(null);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) onImportFiles(files);
+  };
+
   return (
-    <div className="w-full bg-gradient-to-t from-black/90 to-transparent pb-8 pt-4">
-        {/* Shutter Text / Instruction */}
-        <div className="text-center text-white/60 text-xs mb-4 font-medium tracking-wider">
-            {selectedPoseId ? "ALIGN SUBJECT TO WIREFRAME" : "SELECT A POSE"}
+    <div className="fixed inset-0 z-[150] flex items-end bg-black/40 animate-fade-in" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false); }}
+        onDrop={handleDrop}
+        className="relative w-full max-h-[80vh] flex flex-col bg-zinc-900/95 backdrop-blur-2xl border-t border-white/10 rounded-t-3xl pt-4 pb-8 shadow-2xl"
+      >
+        <div className="flex justify-between items-center mb-3 px-6">
+          <span className="text-[10px] font-bold text-white/40 tracking-[0.2em] uppercase">Pose Library</span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+              className="px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-[11px] font-bold text-white/70 flex items-center gap-1 active:bg-white/20 disabled:opacity-50"
+            >
+              {isImporting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+              匯入
+            </button>
+            <button
+              onClick={() => traceInputRef.current?.click()}
+              className="px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-[11px] font-bold text-white/70 flex items-center gap-1 active:bg-white/20"
+            >
+              <ScanLine className="w-3 h-3" />
+              描圖
+            </button>
+            {view !== 'ai' && (
+              <button
+                onClick={() => setExportIds(exportIds ? null : new Set())}
+                className={`px-3 py-1.5 rounded-full border text-[11px] font-bold flex items-center gap-1 transition-colors ${
+                  exportIds ? 'bg-white text-black border-white' : 'bg-white/5 border-white/10 text-white/70 active:bg-white/20'
+                }`}
+              >
+                <Share2 className="w-3 h-3" />
+                {exportIds ? '取消' : '匯出'}
+              </button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={POSE_IMPORT_ACCEPT}
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                e.target.value = ''; // Picking the same file again should still fire
+                if (files.length > 0) onImportFiles(files);
+              }}
+            />
+            <input
+              ref={traceInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) onTracePhoto(file);
+              }}
+            />
+            {selectedPoseId && (
+              <button
+                onClick={() => { onClearPose(); onClose(); }}
+                className="px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-[11px] font-bold text-white/70 active:bg-white/20"
+              >
+                移除線框
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="w-8 h-8 rounded-full bg-white/5 border border-white/10 flex items-center justify-center text-white/70 active:bg-white/20"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
         </div>
 
-      <div className="flex overflow-x-auto no-scrollbar px-4 space-x-4 items-center h-20">
-        <button
-          onClick={() => onSelectPose(null)}
-          className={`flex-shrink-0 w-14 h-14 rounded-full flex items-center justify-center border-2 transition-all duration-200 ${
-            selectedPoseId === null
-              ? 'border-yellow-400 bg-white/20'
-              : 'border-white/30 bg-black/40'
-          }`}
-        >
-            <span className="text-xs font-bold text-white">OFF</span>
-        </button>
-
-        {POSES.map((pose) => (
-          <button
-            key={pose.id}
-            onClick={() => onSelectPose(pose)}
-            className={`flex-shrink-0 w-14 h-14 rounded-full flex items-center justify-center border-2 transition-all duration-200 backdrop-blur-sm ${
-              selectedPoseId === pose.id
-                ? 'border-yellow-400 bg-white/20 scale-110'
-                : 'border-white/30 bg-black/40'
-            }`}
-          >
-            <svg
-              viewBox={pose.viewBox}
-              className="w-8 h-8 stroke-white fill-none stroke-[1.5]"
-            >
-              <path d={pose.svgPath} />
-            </svg>
-          </button>
-        ))}
-        {/* Spacer for right padding */}
-        <div className="w-4 flex-shrink-0" />
+        {/* Search + AI */}
+        <div className="flex items-center gap-2 px-6 mb-3">
+          <div className="flex-1 flex items-center gap-2 h-10 px-3 rounded-full bg-white/5 border border-white/10">
+            <Search className="w-4 h-4 text-white/40 flex-shrink-0" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="搜尋名稱或標籤"
+              className="flex-1 min-w-0 bg-transparent text-sm text-white placeholder-white/30 outline-none"
+            />
+          </div>
+          <AIGuideButton isGenerating={isGenerating} onGeneratePose={() => { onGeneratePose(); onClose(); }} />
+        </div>
+
+        {error && <p className="px-6 mb-3 text-xs text-red-400 whitespace-pre-line">{error}</p>}
+
+        {/* Views + Categories */}
+        <div className="flex overflow-x-auto no-scrollbar gap-1.5 px-6 mb-4">
+          {LIBRARY_VIEWS.map(v => (
+            <button key={v.id} onClick={() => { setView(v.id); if (v.id === 'ai') setExportIds(null); }} className={chipClass(view === v.id)}>
+              {v.id === 'favorites' && <Star className="inline w-3 h-3 mr-1 -mt-0.5" />}
+              {v.id === 'recents' && <History className="inline w-3 h-3 mr-1 -mt-0.5" />}
+              {v.id === 'ai' && <Sparkles className="inline w-3 h-3 mr-1 -mt-0.5" />}
+              {v.label}
+            </button>
+          ))}
+          <div className="flex-shrink-0 w-px bg-white/10 mx-1" />
+          {view !== 'ai' && POSE_CATEGORIES.map(c => (
+            <button key={c.id} onClick={() => setCategory(category === c.id ? null : c.id)} className={chipClass(category === c.id)}>
+              {c.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Drop Target */}
+        {isDragging && (
+          <div className="absolute inset-2 z-10 rounded-3xl border-2 border-dashed border-yellow-400 bg-black/70 flex flex-col items-center justify-center gap-2 pointer-events-none">
+            <Upload className="w-8 h-8 text-yellow-400" />
+            <span className="text-sm font-bold text-white">放開以匯入 SVG / PNG 線框或 .posepack</span>
+          </div>
+        )}
+
+        {/* Pose Grid */}
+        <div className="flex-1 overflow-y-auto px-6">
+          {view === 'ai' ? (
+            visibleHistory.length === 0 ? (
+              <p className="py-10 text-center text-xs text-white/40">
+                {aiHistory.length === 0 ? '用 AI POSE 生成的姿勢都會保存在這裡' : '找不到符合的姿勢'}
+              </p>
+            ) : (
+              <AIPoseHistory
+                records={visibleHistory}
+                savedIds={savedIds}
+                selectedPoseId={selectedPoseId}
+                onUse={(record) => { onSelectPose(record.pose); onClose(); }}
+                onSave={onSaveAIPose}
+                onRename={onRenameAIPose}
+                onDelete={onDeleteAIPose}
+              />
+            )
+          ) : visiblePoses.length === 0 ? (
+            <p className="py-10 text-center text-xs text-white/40">{emptyMessage}</p>
+          ) : (
+            <div className="grid grid-cols-4 gap-3">
+              {visiblePoses.map(pose => (
+                <button
+                  key={pose.id}
+                  onClick={() => exportIds ? toggleExportPose(pose.id) : setPreviewPose(pose)}
+                  className={`relative aspect-square rounded-2xl flex items-center justify-center border-2 transition-all active:scale-95 ${
+                    (exportIds ? exportIds.has(pose.id) : selectedPoseId === pose.id) ? 'border-yellow-400 bg-white/15' : 'border-white/10 bg-black/40'
+                  }`}
+                  aria-label={pose.name}
+                >
+                  <PoseThumbnail pose={pose} className="w-3/5 h-3/5" />
+                  {exportIds ? (
+                    exportIds.has(pose.id)
+                      ? <CheckCircle2 className="absolute top-1.5 right-1.5 w-4 h-4 text-yellow-400" />
+                      : <Circle className="absolute top-1.5 right-1.5 w-4 h-4 text-white/40" />
+                  ) : favorites.includes(pose.id) && (
+                    <Star className="absolute top-1.5 right-1.5 w-3 h-3 text-yellow-400 fill-yellow-400" />
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Pose Pack Export */}
+        {exportIds && (
+          <div className="px-6 pt-4 mt-2 border-t border-white/10 flex flex-col gap-2">
+            <div className="flex gap-2">
+              <input
+                value={packName}
+                onChange={(e) => setPackName(e.target.value)}
+                placeholder="姿勢包名稱"
+                className="flex-1 min-w-0 h-10 px-3 rounded-full bg-white/5 border border-white/10 text-sm text-white placeholder-white/30 outline-none"
+              />
+              <input
+                value={packAuthor}
+                onChange={(e) => setPackAuthor(e.target.value)}
+                placeholder="作者（選填）"
+                className="flex-1 min-w-0 h-10 px-3 rounded-full bg-white/5 border border-white/10 text-sm text-white placeholder-white/30 outline-none"
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setExportIds(new Set(visiblePoses.map(p => p.id)))}
+                className="h-11 px-4 rounded-full bg-white/10 text-white text-xs font-bold active:bg-white/20"
+              >
+                全選
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={exportIds.size === 0 || !packName.trim()}
+                className="flex-1 h-11 rounded-full bg-yellow-400 text-black font-bold text-sm disabled:opacity-40 active:scale-95 transition-transform"
+              >
+                匯出 {exportIds.size} 個姿勢為 .posepack
+              </button>
+            </div>
+          </div>
+        )}
       </div>
+
+      {/* Preview Sheet */}
+      {previewPose && (
+        <div className="fixed inset-0 z-[160] flex items-end bg-black/60 animate-fade-in" onClick={(e) => { e.stopPropagation(); setPreviewPose(null); }}>
+          <div
+            onClick={(e) => e.stopPropagation()}
+            className="w-full bg-zinc-900 border-t border-white/10 rounded-t-3xl px-6 pt-4 pb-10 shadow-2xl"
+          >
+            <div className="flex justify-between items-center mb-4">
+              <div className="flex flex-col">
+                <span className="text-white font-bold">{previewPose.name}</span>
+                <span className="text-xs text-white/40 mt-0.5">
+                  {[POSE_CATEGORIES.find(c => c.id === previewPose.category)?.label, ...(previewPose.tags ?? [])].filter(Boolean).join(' · ')}
+                </span>
+              </div>
+              <button
+                onClick={() => onToggleFavorite(previewPose.id)}
+                className="w-10 h-10 rounded-full bg-white/5 border border-white/10 flex items-center justify-center active:bg-white/20"
+                aria-label="Favorite"
+              >
+                <Star className={`w-5 h-5 ${favorites.includes(previewPose.id) ? 'text-yellow-400 fill-yellow-400' : 'text-white/70'}`} />
+              </button>
+            </div>
+
+            <div className="w-full aspect-[3/4] max-h-[50vh] mx-auto rounded-2xl bg-black/60 border border-white/10 flex items-center justify-center mb-5">
+              <PoseThumbnail pose={previewPose} className="w-4/5 h-4/5" />
+            </div>
+
+            <div className="flex gap-3">
+              {isCustomPose(previewPose) && (
+                <button
+                  onClick={() => { onDeletePose(previewPose); setPreviewPose(null); }}
+                  className="w-12 h-12 flex-shrink-0 rounded-full bg-white/10 text-red-400 flex items-center justify-center active:bg-white/20"
+                  aria-label="Delete Pose"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              )}
+              {previewPose.skeleton && (
+                <button
+                  onClick={() => { onEditPose(previewPose); setPreviewPose(null); }}
+                  className="w-12 h-12 flex-shrink-0 rounded-full bg-white/10 text-white flex items-center justify-center active:bg-white/20"
+                  aria-label="Edit Pose"
+                >
+                  <PencilRuler className="w-5 h-5" />
+                </button>
+              )}
+              <button
+                onClick={() => setPreviewPose(null)}
+                className="flex-1 h-12 rounded-full bg-white/10 text-white font-bold text-sm active:bg-white/20"
+              >
+                返回
+              </button>
+              <button
+                onClick={() => { onSelectPose(previewPose); onClose(); }}
+                className="flex-1 h-12 rounded-full bg-yellow-400 text-black font-bold text-sm flex items-center justify-center gap-1.5 active:scale-95 transition-transform"
+              >
+                <Check className="w-4 h-4" />
+                使用這個姿勢
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+import { Pose } from '../types';
+import { getSkeletonGeometry, parseViewBox } from '../utils/skeleton';
+import { SkeletonShape } from './SkeletonShape';
+
+// Static drawing of a pose (no gestures), for library tiles and buttons
+export const PoseThumbnail: React.FC<{ pose: Pose; className?: string }> = ({ pose, className = '' }) => {
+  if (pose.imageUrl) {
+    return <img src={pose.imageUrl} alt={pose.name} className={`object-contain pointer-events-none select-none ${className}`} />;
+  }
+
+  // Skeleton poses without a viewBox span the screen, as in the overlay and the editor
+  const viewBox = pose.viewBox ?? `0 0 ${window.innerWidth} ${window.innerHeight}`;
+  const box = parseViewBox(viewBox);
+
+  return (
+    <svg viewBox={viewBox} className={`stroke-white fill-none stroke-[1.5] ${className}`} style={{ strokeLinecap: 'round', strokeLinejoin: 'round' }}>
+      {pose.svgPath && <path d={pose.svgPath} />}
+      {pose.skeleton && <SkeletonShape geometry={getSkeletonGeometry(pose.skeleton, box)} lineWidth={Math.max(box.width, box.height) * 0.04} />}
+    </svg>
+  );
+};
@@ -0,0 +1,339 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Eraser, Eye, EyeOff, Loader2, ScanLine, Trash2, Undo2 } from 'lucide-react';
+import { TraceSettings } from '../types';
+import { DEFAULT_TRACE_SETTINGS, TRACE_MAX_EDGE } from '../constants';
+import { detectEdges, drawEdges } from '../utils/edgeTrace';
+
+type TracerTool = 'edges' | 'erase';
+
+interface PoseTracerProps {
+  source: Blob; // Any photo the browser can decode
+  defaultName: string;
+  error: string | null; // Last save failure
+  onSave: (imageUrl: string, name: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const OUTLINE_WIDTH = 3; // px at TRACE_MAX_EDGE
+const ERASE_UNDO_LIMIT = 20;
+
+const SLIDERS: { id: keyof TraceSettings; label: string; min: number; max: number; step: number }[] = [
+  { id: 'highThreshold', label: '起筆門檻', min: 0.05, max: 0.9, step: 0.01 },
+  { id: 'lowThreshold', label: '延伸門檻', min: 0.02, max: 0.6, step: 0.01 },
+  { id: 'smoothing', label: '平滑', min: 0, max: 4, step: 0.2 },
+];
+
+const TOOLS: { id: TracerTool; label: string; icon: React.ReactNode }[] = [
+  { id: 'edges', label: '邊緣', icon: <ScanLine className="w-5 h-5" /> },
+  { id: 'erase', label: '橡皮擦', icon: <Eraser className="w-5 h-5" /> },
+];
+
+// Full-screen "trace from photo": edge detection turns a reference photo into a white-on-transparent
+// outline, and a brush erases background edges before it is saved as a library pose. Nothing leaves the device.
+export const PoseTracer: React.FC<PoseTracerProps> = ({ source, defaultName, error, onSave, onClose }) => {
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const photoRef = useRef<HTMLCanvasElement | null>(null);
+  const pixelsRef = useRef<ImageData | null>(null);
+  const edgesRef = useRef<HTMLCanvasElement | null>(null);
+  const eraseRef = useRef<HTMLCanvasElement | null>(null); // Opaque wherever the brush went
+  const eraseUndoRef = useRef<ImageData[]>([]);
+  const strokeRef = useRef<{ x: number; y: number } | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  const [settings, setSettings] = useState<TraceSettings>(DEFAULT_TRACE_SETTINGS);
+  const [tool, setTool] = useState<TracerTool>('edges');
+  const [brushSize, setBrushSize] = useState(32); // Screen px
+  const [eraseUndoCount, setEraseUndoCount] = useState(0);
+  const [isShowingPhoto, setIsShowingPhoto] = useState(true);
+  const [name, setName] = useState(defaultName);
+  const [localError, setLocalError] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Decode once at tracing size; detection and the saved PNG both use this resolution
+  useEffect(() => {
+    let cancelled = false;
+
+    createImageBitmap(source)
+      .then((bitmap) => {
+        const ratio = Math.min(1, TRACE_MAX_EDGE / Math.max(bitmap.width, bitmap.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(bitmap.width * ratio);
+        canvas.height = Math.round(bitmap.height * ratio);
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) throw new Error('Could not get canvas context');
+        ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        bitmap.close();
+
+        if (!cancelled) {
+          photoRef.current = canvas;
+          pixelsRef.current = ctx.getImageData(0, 0, canvas.width, canvas.height);
+          edgesRef.current = document.createElement('canvas');
+          eraseRef.current = document.createElement('canvas');
+          eraseRef.current.width = canvas.width;
+          eraseRef.current.height = canvas.height;
+          setIsReady(true);
+        }
+      })
+      .catch((e) => {
+        console.error("Tracer load failed", e);
+        if (!cancelled) setLocalError("無法讀取這張照片");
+      });
+
+    return () => { cancelled = true; };
+  }, [source]);
+
+  // The outline as it will be saved: detected edges minus everything erased
+  const composeOutline = (target: HTMLCanvasElement) => {
+    const edges = edgesRef.current;
+    const erase = eraseRef.current;
+    if (!edges || !erase) return null;
+    target.width = edges.width;
+    target.height = edges.height;
+    const ctx = target.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(edges, 0, 0);
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.drawImage(erase, 0, 0);
+    ctx.globalCompositeOperation = 'source-over';
+    return ctx;
+  };
+
+  const renderPreview = () => {
+    const preview = previewRef.current;
+    const photo = photoRef.current;
+    if (!preview || !photo) return;
+
+    const outline = document.createElement('canvas');
+    composeOutline(outline);
+    preview.width = photo.width;
+    preview.height = photo.height;
+    const ctx = preview.getContext('2d');
+    if (!ctx) return;
+    if (isShowingPhoto) {
+      ctx.globalAlpha = 0.35;
+      ctx.drawImage(photo, 0, 0);
+      ctx.globalAlpha = 1;
+    }
+    ctx.drawImage(outline, 0, 0);
+  };
+
+  // Re-detect when the thresholds move; coalesced to one run per frame while a slider is dragged
+  useEffect(() => {
+    if (!isReady || !pixelsRef.current) return;
+
+    if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    frameRef.current = requestAnimationFrame(() => {
+      const pixels = pixelsRef.current;
+      if (!pixels || !edgesRef.current) return;
+      drawEdges(detectEdges(pixels, settings), pixels.width, pixels.height, OUTLINE_WIDTH, edgesRef.current);
+      renderPreview();
+    });
+  }, [settings, isReady]);
+
+  useEffect(() => {
+    if (isReady) renderPreview();
+  }, [isShowingPhoto]);
+
+  // Pointer position in canvas pixels
+  const toCanvasPoint = (e: React.PointerEvent) => {
+    const preview = previewRef.current!;
+    const rect = preview.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * preview.width / rect.width,
+      y: (e.clientY - rect.top) * preview.height / rect.height,
+      scale: preview.width / rect.width,
+    };
+  };
+
+  const eraseTo = (e: React.PointerEvent) => {
+    const ctx = eraseRef.current?.getContext('2d');
+    const from = strokeRef.current;
+    if (!ctx || !from) return;
+    const point = toCanvasPoint(e);
+    ctx.strokeStyle = 'black';
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = brushSize * point.scale;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    strokeRef.current = { x: point.x, y: point.y };
+    renderPreview();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (tool !== 'erase' || !isReady) return;
+    const erase = eraseRef.current;
+    const ctx = erase?.getContext('2d');
+    if (!erase || !ctx) return;
+
+    eraseUndoRef.current = [...eraseUndoRef.current, ctx.getImageData(0, 0, erase.width, erase.height)].slice(-ERASE_UNDO_LIMIT);
+    setEraseUndoCount(eraseUndoRef.current.length);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    strokeRef.current = { x: point.x, y: point.y };
+    // A tap erases a dot
+    ctx.fillStyle = 'black';
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, brushSize * point.scale / 2, 0, Math.PI * 2);
+    ctx.fill();
+    renderPreview();
+  };
+
+  const handlePointerUp = () => {
+    strokeRef.current = null;
+  };
+
+  const handleUndoErase = () => {
+    const snapshot = eraseUndoRef.current.pop();
+    setEraseUndoCount(eraseUndoRef.current.length);
+    if (!snapshot) return;
+    eraseRef.current?.getContext('2d')?.putImageData(snapshot, 0, 0);
+    renderPreview();
+  };
+
+  const handleClearErase = () => {
+    const erase = eraseRef.current;
+    const ctx = erase?.getContext('2d');
+    if (!erase || !ctx) return;
+    eraseUndoRef.current = [...eraseUndoRef.current, ctx.getImageData(0, 0, erase.width, erase.height)].slice(-ERASE_UNDO_LIMIT);
+    setEraseUndoCount(eraseUndoRef.current.length);
+    ctx.clearRect(0, 0, erase.width, erase.height);
+    renderPreview();
+  };
+
+  const handleSave = async () => {
+    const outline = document.createElement('canvas');
+    const ctx = composeOutline(outline);
+    if (!ctx) return;
+    const alpha = ctx.getImageData(0, 0, outline.width, outline.height).data;
+    let hasLines = false;
+    for (let i = 3; i < alpha.length && !hasLines; i += 4) hasLines = alpha[i] > 0;
+    if (!hasLines) {
+      setLocalError("沒有任何線條，請降低門檻或少擦一些");
+      return;
+    }
+
+    setLocalError(null);
+    setIsSaving(true);
+    try {
+      await onSave(outline.toDataURL('image/png'), name.trim() || defaultName);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const pillClass = (active: boolean) => `
+    flex-shrink-0 flex items-center gap-1.5 px-4 py-2 rounded-full text-xs font-bold tracking-wider border transition-all disabled:opacity-30
+    ${active ? 'bg-white text-black border-white' : 'bg-white/5 text-white/70 border-white/10 active:bg-white/20'}
+  `;
+
+  const renderToolPanel = () => {
+    if (tool === 'erase') {
+      return (
+        <div className="flex flex-col gap-4">
+          <label className="flex items-center gap-4 px-6 text-[10px] font-bold text-white/40 tracking-[0.2em]">
+            <span className="w-14">筆刷 {brushSize}</span>
+            <input
+              type="range" min={8} max={96} step={4}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              className="flex-1 accent-yellow-400"
+            />
+          </label>
+          <div className="flex justify-center gap-3">
+            <button onClick={handleUndoErase} disabled={eraseUndoCount === 0} className={pillClass(false)}>
+              <Undo2 className="w-4 h-4" /> 復原
+            </button>
+            <button onClick={handleClearErase} className={pillClass(false)}>
+              <Trash2 className="w-4 h-4" /> 清除擦除
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex flex-col gap-3">
+        {SLIDERS.map(s => (
+          <label key={s.id} className="flex items-center gap-4 px-6 text-[10px] font-bold text-white/40 tracking-[0.2em]">
+            <span className="w-16">{s.label}</span>
+            <input
+              type="range" min={s.min} max={s.max} step={s.step}
+              value={settings[s.id]}
+              onChange={(e) => setSettings(prev => ({ ...prev, [s.id]: Number(e.target.value) }))}
+              onDoubleClick={() => setSettings(prev => ({ ...prev, [s.id]: DEFAULT_TRACE_SETTINGS[s.id] }))}
+              className="flex-1 accent-yellow-400"
+            />
+          </label>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[170] bg-black flex flex-col animate-fade-in">
+      {/* Top Bar */}
+      <div className="flex items-center justify-between gap-3 px-6 pt-12 pb-4">
+        <button onClick={onClose} className="text-sm font-bold text-white/70 px-2 py-2">取消</button>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={40}
+          className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-full px-4 py-2 text-sm text-white text-center outline-none focus:border-white/30"
+          aria-label="Pose Name"
+        />
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !isReady}
+          className="text-sm font-extrabold text-yellow-400 px-2 py-2 disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="w-5 h-5 animate-spin" /> : '儲存'}
+        </button>
+      </div>
+
+      {(localError || error) && <p className="mx-6 mb-2 text-xs text-red-400 text-center">{localError ?? error}</p>}
+
+      {/* Preview: the photo is dimmed under the outline so stray background edges are easy to spot */}
+      <div className="flex-1 relative flex items-center justify-center overflow-hidden px-4">
+        {!isReady && !localError && <Loader2 className="w-8 h-8 text-white/50 animate-spin" />}
+        <canvas
+          ref={previewRef}
+          className={`max-w-full max-h-full touch-none ${isReady ? '' : 'hidden'}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={(e) => { if (strokeRef.current) eraseTo(e); }}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+        <button
+          onClick={() => setIsShowingPhoto(v => !v)}
+          className="absolute top-3 right-6 w-10 h-10 rounded-full bg-black/60 border border-white/10 flex items-center justify-center text-white/80"
+          aria-label="Toggle Photo"
+        >
+          {isShowingPhoto ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {/* Tool Panel */}
+      <div className="pt-5 pb-4 min-h-[120px]">
+        {renderToolPanel()}
+      </div>
+
+      {/* Tool Tabs */}
+      <div className="flex justify-around px-6 pb-10 pt-2 border-t border-white/5">
+        {TOOLS.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTool(t.id)}
+            className={`flex flex-col items-center gap-1 px-4 py-2 transition-colors ${tool === t.id ? 'text-yellow-400' : 'text-white/50'}`}
+          >
+            {t.icon}
+            <span className="text-[10px] font-bold tracking-widest">{t.label}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
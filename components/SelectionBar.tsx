@@ -0,0 +1,58 @@
+import React from 'react';
+import { Archive, CheckCheck, Loader2, Trash2 } from 'lucide-react';
+
+interface SelectionBarProps {
+  selectedCount: number;
+  totalCount: number;
+  isExporting: boolean;
+  onToggleAll: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+}
+
+export const SelectionBar: React.FC<SelectionBarProps> = ({
+  selectedCount,
+  totalCount,
+  isExporting,
+  onToggleAll,
+  onExport,
+  onDelete
+}) => {
+  const allSelected = totalCount > 0 && selectedCount === totalCount;
+  const hasSelection = selectedCount > 0;
+
+  return (
+    <div className="absolute bottom-10 left-6 right-6 z-20 pointer-events-none animate-fade-in">
+      <div className="pointer-events-auto bg-black/60 backdrop-blur-2xl border border-white/10 rounded-3xl p-2.5 flex items-center gap-2 shadow-2xl ring-1 ring-white/5">
+        <button
+          onClick={onToggleAll}
+          className="h-14 px-4 rounded-2xl flex items-center gap-2 text-white/80 hover:bg-white/5 active:scale-95 transition-all"
+        >
+          <CheckCheck className="w-5 h-5" />
+          <span className="text-xs font-bold tracking-wider">{allSelected ? '取消全選' : '全選'}</span>
+        </button>
+
+        <div className="w-[1px] h-8 bg-white/10" />
+
+        <button
+          onClick={onDelete}
+          disabled={!hasSelection || isExporting}
+          className="w-14 h-14 rounded-2xl flex items-center justify-center text-red-400 hover:bg-white/5 active:scale-90 transition-all disabled:opacity-30"
+        >
+          <Trash2 className="w-5 h-5" />
+        </button>
+
+        <button
+          onClick={onExport}
+          disabled={!hasSelection || isExporting}
+          className="flex-1 h-14 bg-white text-black rounded-2xl font-bold flex items-center justify-center gap-2 active:scale-95 transition-transform shadow-lg disabled:opacity-40"
+        >
+          {isExporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Archive className="w-5 h-5" />}
+          <span className="text-sm tracking-wide font-extrabold">
+            {isExporting ? '打包中...' : `匯出 ZIP (${selectedCount})`}
+          </span>
+        </button>
+      </div>
+    </div>
+  );
+};
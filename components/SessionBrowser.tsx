@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Combine, Images, Pencil, Plus, Trash2 } from 'lucide-react';
+import { StoredImage } from './StoredImage';
+import { SessionGroup } from '../utils/sessions';
+
+interface SessionBrowserProps {
+  groups: SessionGroup[];
+  selectedSessionId: string | null;
+  onSelect: (sessionId: string | null) => void;
+  onCreate: () => void;
+  onRename: (sessionId: string) => void;
+  onMerge: (sourceId: string, targetId: string) => void;
+  onDelete: (sessionId: string) => void;
+}
+
+export const SessionBrowser: React.FC<SessionBrowserProps> = ({
+  groups,
+  selectedSessionId,
+  onSelect,
+  onCreate,
+  onRename,
+  onMerge,
+  onDelete
+}) => {
+  const [isPickingMergeTarget, setIsPickingMergeTarget] = useState(false);
+  const selected = groups.find(g => g.session.id === selectedSessionId) ?? null;
+
+  const cardClass = (active: boolean) => `
+    flex-shrink-0 w-24 flex flex-col gap-1.5 text-left transition-all active:scale-95
+    ${active ? 'opacity-100' : 'opacity-60'}
+  `;
+  const coverClass = (active: boolean) => `
+    w-24 h-16 rounded-xl overflow-hidden border-2 bg-white/5 flex items-center justify-center
+    ${active ? 'border-yellow-400' : 'border-white/10'}
+  `;
+
+  return (
+    <div className="border-b border-white/5">
+      {/* Session Strip */}
+      <div className="flex overflow-x-auto no-scrollbar gap-3 px-4 py-3">
+        <button onClick={() => onSelect(null)} className={cardClass(selectedSessionId === null)}>
+          <div className={coverClass(selectedSessionId === null)}>
+            <Images className="w-5 h-5 text-white/60" />
+          </div>
+          <span className="text-[11px] font-bold text-white truncate">全部</span>
+        </button>
+
+        {[...groups].reverse().map(({ session, records }) => {
+          const active = session.id === selectedSessionId;
+          return (
+            <button
+              key={session.id}
+              onClick={() => { onSelect(session.id); setIsPickingMergeTarget(false); }}
+              className={cardClass(active)}
+            >
+              <div className={coverClass(active)}>
+                {records.length > 0
+                  ? <StoredImage captureId={records[0].id} lazy alt={session.name} className="w-full h-full object-cover" />
+                  : <Images className="w-5 h-5 text-white/30" />}
+              </div>
+              <span className="text-[11px] font-bold text-white truncate w-full">{session.name}</span>
+              <span className="text-[10px] text-white/40 -mt-1">{records.length} 張</span>
+            </button>
+          );
+        })}
+
+        <button onClick={onCreate} className={cardClass(false)}>
+          <div className={`${coverClass(false)} border-dashed`}>
+            <Plus className="w-5 h-5 text-white/60" />
+          </div>
+          <span className="text-[11px] font-bold text-white/70">新場次</span>
+        </button>
+      </div>
+
+      {/* Selected Session Actions */}
+      {selected && (
+        <div className="px-4 pb-3 animate-fade-in">
+          <div className="flex gap-2">
+            <button
+              onClick={() => onRename(selected.session.id)}
+              className="flex-1 h-9 rounded-full bg-white/5 border border-white/10 flex items-center justify-center gap-1.5 text-xs font-bold text-white/80 active:bg-white/20"
+            >
+              <Pencil className="w-3.5 h-3.5" /> 重新命名
+            </button>
+            <button
+              onClick={() => setIsPickingMergeTarget(!isPickingMergeTarget)}
+              disabled={groups.length < 2}
+              className={`flex-1 h-9 rounded-full border flex items-center justify-center gap-1.5 text-xs font-bold active:bg-white/20 disabled:opacity-30 ${
+                isPickingMergeTarget ? 'bg-white text-black border-white' : 'bg-white/5 border-white/10 text-white/80'
+              }`}
+            >
+              <Combine className="w-3.5 h-3.5" /> 合併至...
+            </button>
+            <button
+              onClick={() => onDelete(selected.session.id)}
+              className="h-9 px-4 rounded-full bg-white/5 border border-white/10 flex items-center justify-center text-red-400 active:bg-white/20"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          {isPickingMergeTarget && (
+            <div className="mt-2 flex flex-col rounded-2xl bg-white/5 border border-white/10 divide-y divide-white/5 max-h-48 overflow-y-auto">
+              {groups
+                .filter(g => g.session.id !== selected.session.id)
+                .map(({ session, records }) => (
+                  <button
+                    key={session.id}
+                    onClick={() => { onMerge(selected.session.id, session.id); setIsPickingMergeTarget(false); }}
+                    className="flex justify-between px-4 py-2.5 text-sm text-white/80 active:bg-white/10"
+                  >
+                    <span className="truncate">{session.name}</span>
+                    <span className="text-white/40 text-xs">{records.length} 張</span>
+                  </button>
+                ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { AppSettings } from '../types';
+import { SKELETON_LINE_WEIGHTS } from '../constants';
+
+interface SettingsSheetProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+interface ToggleRowProps {
+  label: string;
+  description: string;
+  checked: boolean;
+  onToggle: () => void;
+}
+
+const ToggleRow: React.FC<ToggleRowProps> = ({ label, description, checked, onToggle }) => (
+  <button onClick={onToggle} className="w-full flex items-center justify-between gap-4 py-3 text-left">
+    <div className="flex flex-col">
+      <span className="text-sm text-white/90 font-medium">{label}</span>
+      <span className="text-xs text-white/40 mt-0.5">{description}</span>
+    </div>
+    <div className={`flex-shrink-0 w-11 h-6 rounded-full p-0.5 transition-colors ${checked ? 'bg-yellow-400' : 'bg-white/15'}`}>
+      <div className={`w-5 h-5 rounded-full bg-white shadow transition-transform ${checked ? 'translate-x-5' : ''}`} />
+    </div>
+  </button>
+);
+
+interface ChoiceRowProps<T> {
+  label: string;
+  description: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+const ChoiceRow = <T,>({ label, description, options, value, onChange }: ChoiceRowProps<T>) => (
+  <div className="w-full flex items-center justify-between gap-4 py-3">
+    <div className="flex flex-col">
+      <span className="text-sm text-white/90 font-medium">{label}</span>
+      <span className="text-xs text-white/40 mt-0.5">{description}</span>
+    </div>
+    <div className="flex-shrink-0 flex gap-1 p-0.5 rounded-full bg-white/10">
+      {options.map(option => (
+        <button
+          key={String(option.value)}
+          onClick={() => onChange(option.value)}
+          className={`px-3 py-1 rounded-full text-xs font-bold transition-colors ${option.value === value ? 'bg-white text-black' : 'text-white/60'}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export const SettingsSheet: React.FC<SettingsSheetProps> = ({ settings, onChange, onClose }) => {
+  const update = (patch: Partial<AppSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-end bg-black/40 animate-fade-in" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full bg-zinc-900/95 backdrop-blur-2xl border-t border-white/10 rounded-t-3xl px-6 pt-4 pb-10 shadow-2xl"
+      >
+        <div className="flex justify-between items-center mb-2">
+          <span className="text-[10px] font-bold text-white/40 tracking-[0.2em] uppercase">Settings</span>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-full bg-white/5 border border-white/10 flex items-center justify-center text-white/70 active:bg-white/20"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="divide-y divide-white/5">
+          <ToggleRow
+            label="移除照片資訊"
+            description="分享與下載時不寫入拍攝時間、姿勢與鏡頭等 EXIF 資料"
+            checked={settings.stripMetadata}
+            onToggle={() => update({ stripMetadata: !settings.stripMetadata })}
+          />
+          <ToggleRow
+            label="匯出時疊加線框"
+            description="把拍攝時的姿勢線框畫在分享與下載的照片上"
+            checked={settings.burnInGuide}
+            onToggle={() => update({ burnInGuide: !settings.burnInGuide })}
+          />
+          <ToggleRow
+            label="另存線框圖層"
+            description="同時匯出只有線框的透明 PNG，可在其他軟體中疊圖"
+            checked={settings.includeGuideLayer}
+            onToggle={() => update({ includeGuideLayer: !settings.includeGuideLayer })}
+          />
+          <ToggleRow
+            label="瞬間捕捉"
+            description="保留快門前約 1.5 秒的畫面，檢視時可挑選沒閉眼的那一張；會使用較多記憶體與儲存空間"
+            checked={settings.momentCapture}
+            onToggle={() => update({ momentCapture: !settings.momentCapture })}
+          />
+          <ChoiceRow
+            label="骨架線條粗細"
+            description="有骨架的姿勢會畫成火柴人，可調整線條與關節點的粗細"
+            options={SKELETON_LINE_WEIGHTS}
+            value={settings.skeletonLineWeight}
+            onChange={(skeletonLineWeight) => update({ skeletonLineWeight })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
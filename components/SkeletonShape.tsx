@@ -0,0 +1,23 @@
+import React from 'react';
+import { SkeletonGeometry } from '../utils/skeleton';
+
+// Stick figure for use inside an <svg>: white limbs and head, yellow joint dots. `lineWidth` is in the svg's own units.
+export const SkeletonShape: React.FC<{ geometry: SkeletonGeometry; lineWidth: number }> = ({ geometry, lineWidth }) => {
+  const strokes = geometry.neck ? [...geometry.bones, geometry.neck] : geometry.bones;
+
+  return (
+    <>
+      <g fill="none" stroke="white" strokeWidth={lineWidth} strokeLinecap="round" opacity={0.85}>
+        {strokes.map(({ from, to }, i) => (
+          <line key={i} x1={from.x} y1={from.y} x2={to.x} y2={to.y} />
+        ))}
+        {geometry.head && <circle cx={geometry.head.center.x} cy={geometry.head.center.y} r={geometry.head.radius} />}
+      </g>
+      <g fill="#facc15" stroke="none">
+        {geometry.joints.map((p, i) => (
+          <circle key={i} cx={p.x} cy={p.y} r={lineWidth} />
+        ))}
+      </g>
+    </>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PhotoEdits } from '../types';
+import { getCaptureBlob, getCaptureThumbnail } from '../utils/galleryStore';
+import { isIdentityEdits, renderEditedBlob } from '../utils/photoEdits';
+
+interface StoredImageProps {
+  captureId: string;
+  variant?: 'thumbnail' | 'full';
+  lazy?: boolean; // Defer loading until the image scrolls into view
+  edits?: PhotoEdits; // Rendered onto the full image; thumbnails are stored pre-edited
+  alt: string;
+  className?: string;
+}
+
+const FULL_PREVIEW_MAX_EDGE = 2048;
+
+// Renders a capture straight out of IndexedDB via an object URL that is revoked on unmount
+export const StoredImage: React.FC<StoredImageProps> = ({
+  captureId,
+  variant = 'thumbnail',
+  lazy = false,
+  edits,
+  alt,
+  className
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(!lazy);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isVisible || !containerRef.current) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(containerRef.current);
+
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  useEffect(() => {
+    if (!isVisible) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    const load = async () => {
+      if (variant === 'thumbnail') return getCaptureThumbnail(captureId);
+      const original = await getCaptureBlob(captureId);
+      return original && !isIdentityEdits(edits) ? renderEditedBlob(original, edits!, FULL_PREVIEW_MAX_EDGE) : original;
+    };
+
+    load()
+      .then((blob) => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((e) => console.warn('Failed to load capture', e));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [captureId, variant, isVisible, edits]);
+
+  if (!url) {
+    return <div ref={containerRef} className={`${className ?? ''} bg-white/5`} />;
+  }
+
+  return <img src={url} alt={alt} className={className} draggable={false} />;
+};
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { getCaptureBlob, getCapturePoster } from '../utils/galleryStore';
+
+interface StoredVideoProps {
+  captureId: string;
+  active: boolean; // Only the page on screen loads the clip; neighbours show the poster
+  className?: string;
+}
+
+// Plays a recorded clip out of IndexedDB, with its first frame as the poster
+export const StoredVideo: React.FC<StoredVideoProps> = ({ captureId, active, className }) => {
+  const [posterUrl, setPosterUrl] = useState<string | null>(null);
+  const [clipUrl, setClipUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    getCapturePoster(captureId)
+      .then((blob) => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setPosterUrl(objectUrl);
+      })
+      .catch((e) => console.warn('Failed to load poster', e));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setPosterUrl(null);
+    };
+  }, [captureId]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    getCaptureBlob(captureId)
+      .then((blob) => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setClipUrl(objectUrl);
+      })
+      .catch((e) => console.warn('Failed to load clip', e));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setClipUrl(null);
+    };
+  }, [captureId, active]);
+
+  if (!clipUrl) {
+    return posterUrl
+      ? <img src={posterUrl} alt="Video" className={className} draggable={false} />
+      : <div className={`${className ?? ''} bg-white/5`} />;
+  }
+
+  return (
+    <video
+      src={clipUrl}
+      poster={posterUrl ?? undefined}
+      controls
+      playsInline
+      className={className}
+    />
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { FrameRect } from '../types';
+
+interface ViewfinderMaskProps {
+  frame: FrameRect; // Screen-space rect the capture will keep
+}
+
+// Darkens everything outside the capture frame so the preview shows exactly what gets saved
+export const ViewfinderMask: React.FC<ViewfinderMaskProps> = ({ frame }) => {
+  const right = frame.x + frame.width;
+  const bottom = frame.y + frame.height;
+  const barClass = "absolute bg-black/70 transition-all duration-300";
+
+  return (
+    <div className="absolute inset-0 z-[15] pointer-events-none">
+      <div className={barClass} style={{ left: 0, right: 0, top: 0, height: Math.max(0, frame.y) }} />
+      <div className={barClass} style={{ left: 0, right: 0, top: bottom, bottom: 0 }} />
+      <div className={barClass} style={{ left: 0, width: Math.max(0, frame.x), top: frame.y, height: frame.height }} />
+      <div className={barClass} style={{ left: right, right: 0, top: frame.y, height: frame.height }} />
+      <div
+        className="absolute border border-white/30 transition-all duration-300"
+        style={{ left: frame.x, top: frame.y, width: frame.width, height: frame.height }}
+      />
+    </div>
+  );
+};
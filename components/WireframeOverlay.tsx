@@ -1,7 +1,10 @@
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Pose, TransformState, TouchState } from '../types';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import { Pose, TransformState, TouchState, FrameRect } from '../types';
 import { getDistance, getAngle, getMidpoint } from '../utils/geometry';
+import { getOpaqueBounds } from '../utils/image';
+import { getSkeletonBounds, getSkeletonGeometry, parseViewBox } from '../utils/skeleton';
+import { SkeletonShape } from './SkeletonShape';
 
 interface WireframeOverlayProps {
   pose: Pose | null;
@@ -9,22 +12,88 @@ interface WireframeOverlayProps {
   containerHeight: number;
   transform: TransformState;
   onTransformChange: (newTransform: TransformState) => void;
+  skeletonLineWeight?: number; // Screen px at scale 1
 }
 
+const HIT_PADDING = 24; // Screen px of slack around the drawn pose that still grabs it
+
+// Gesture arbitration: only touches that start on the drawn pose (plus HIT_PADDING) reach this overlay.
+// Everything else falls through to the camera's FocusLayer underneath.
 export const WireframeOverlay: React.FC<WireframeOverlayProps> = ({ 
   pose, 
   containerWidth, 
   containerHeight,
   transform,
-  onTransformChange
+  onTransformChange,
+  skeletonLineWeight = 4
 }) => {
   const activeTouches = useRef<Map<number, TouchState>>(new Map());
   const initialTransform = useRef<TransformState>({ ...transform });
   const initialGestureData = useRef<{
+    fingers: number; // Touch count the gesture was set up for
     distance: number;
     angle: number;
     center: { x: number; y: number };
   } | null>(null);
+  const pathRef = useRef<SVGPathElement>(null);
+  const [contentRect, setContentRect] = useState<FrameRect | null>(null); // Drawn pose bounds in the untransformed box
+
+  // Skeletons live in the pose's viewBox, or span the whole box in px when it has none
+  const { skeletonBox, skeletonGeometry } = useMemo(() => {
+    const box: FrameRect = pose?.viewBox ? parseViewBox(pose.viewBox) : { x: 0, y: 0, width: containerWidth, height: containerHeight };
+    return { skeletonBox: box, skeletonGeometry: pose?.skeleton ? getSkeletonGeometry(pose.skeleton, box) : null };
+  }, [pose, containerWidth, containerHeight]);
+
+  // SVG and skeleton poses: path / figure bounds in viewBox units, placed the way the default preserveAspectRatio (meet) fits them
+  useEffect(() => {
+    setContentRect(null);
+    if (!pose || pose.imageUrl) return;
+
+    const rects = [
+      pose.svgPath ? pathRef.current?.getBBox() : undefined,
+      skeletonGeometry ? getSkeletonBounds(skeletonGeometry) : undefined,
+    ].filter((r): r is FrameRect => !!r);
+    if (rects.length === 0) return;
+
+    const x = Math.min(...rects.map(r => r.x));
+    const y = Math.min(...rects.map(r => r.y));
+    const bbox = {
+      x,
+      y,
+      width: Math.max(...rects.map(r => r.x + r.width)) - x,
+      height: Math.max(...rects.map(r => r.y + r.height)) - y,
+    };
+    const { x: vx, y: vy, width: vw, height: vh } = skeletonBox;
+    const k = Math.min(containerWidth / vw, containerHeight / vh);
+    setContentRect({
+      x: (containerWidth - vw * k) / 2 + (bbox.x - vx) * k,
+      y: (containerHeight - vh * k) / 2 + (bbox.y - vy) * k,
+      width: bbox.width * k,
+      height: bbox.height * k,
+    });
+  }, [pose, skeletonBox, skeletonGeometry, containerWidth, containerHeight]);
+
+  // Image poses: visible pixel bounds, placed the way object-cover crops them
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const img = e.currentTarget;
+    try {
+      const bounds = getOpaqueBounds(img);
+      if (!bounds) return;
+      const k = Math.max(containerWidth / img.naturalWidth, containerHeight / img.naturalHeight);
+      const drawW = img.naturalWidth * k;
+      const drawH = img.naturalHeight * k;
+      const x = Math.max(0, (containerWidth - drawW) / 2 + bounds.x * drawW);
+      const y = Math.max(0, (containerHeight - drawH) / 2 + bounds.y * drawH);
+      setContentRect({
+        x,
+        y,
+        width: Math.min(containerWidth, (containerWidth - drawW) / 2 + (bounds.x + bounds.width) * drawW) - x,
+        height: Math.min(containerHeight, (containerHeight - drawH) / 2 + (bounds.y + bounds.height) * drawH) - y,
+      });
+    } catch (err) {
+      console.warn("Could not measure pose image; the whole overlay stays grabbable", err); // e.g. tainted canvas
+    }
+  };
 
   const updateTouches = (event: React.TouchEvent) => {
     const map = new Map<number, TouchState>();
@@ -35,21 +104,21 @@ export const WireframeOverlay: React.FC<WireframeOverlayProps> = ({
     return map;
   };
 
-  const handleTouchStart = (e: React.TouchEvent) => {
-    activeTouches.current = updateTouches(e);
+  // Measures from the current transform and fingers; later moves are applied relative to this
+  const beginGesture = (points: TouchState[]) => {
     initialTransform.current = { ...transform };
 
-    const points: TouchState[] = Array.from(activeTouches.current.values());
-
-    if (activeTouches.current.size === 2) {
+    if (points.length === 2) {
       initialGestureData.current = {
+        fingers: 2,
         distance: getDistance(points[0], points[1]),
         angle: getAngle(points[0], points[1]),
         center: getMidpoint(points[0], points[1]),
       };
-    } else if (activeTouches.current.size === 1) {
+    } else if (points.length === 1) {
       const point = points[0];
       initialGestureData.current = {
+        fingers: 1,
         distance: 0,
         angle: 0,
         center: { x: point.x, y: point.y },
@@ -57,10 +126,22 @@ export const WireframeOverlay: React.FC<WireframeOverlayProps> = ({
     }
   };
 
+  const handleTouchStart = (e: React.TouchEvent) => {
+    activeTouches.current = updateTouches(e);
+    beginGesture(Array.from(activeTouches.current.values()));
+  };
+
   const handleTouchMove = useCallback((e: React.TouchEvent) => {
     activeTouches.current = updateTouches(e);
     const touches: TouchState[] = Array.from(activeTouches.current.values());
 
+    // A finger that went down (or up) outside the hit target never reached handleTouchStart;
+    // start over from here instead of scaling against the other finger count's measurements
+    if (initialGestureData.current && initialGestureData.current.fingers !== touches.length) {
+      beginGesture(touches);
+      return;
+    }
+
     if (touches.length === 2 && initialGestureData.current) {
       const newDist = getDistance(touches[0], touches[1]);
       const newAngle = getAngle(touches[0], touches[1]);
@@ -104,14 +185,11 @@ export const WireframeOverlay: React.FC<WireframeOverlayProps> = ({
 
   if (!pose) return null;
 
+  const hitRect = contentRect ?? { x: 0, y: 0, width: containerWidth, height: containerHeight };
+  const hitPadding = HIT_PADDING / transform.scale; // Constant on screen whatever the guide's scale
+
   return (
-    <div
-      className="absolute inset-0 overflow-hidden flex items-center justify-center touch-none z-10"
-      onTouchStart={handleTouchStart}
-      onTouchMove={handleTouchMove}
-      onTouchEnd={handleTouchEnd}
-      onTouchCancel={handleTouchEnd}
-    >
+    <div className="absolute inset-0 overflow-hidden flex items-center justify-center pointer-events-none z-10">
       <div
         style={{
           transform: `translate(${transform.x}px, ${transform.y}px) rotate(${transform.rotation}deg) scale(${transform.scale})`,
@@ -126,9 +204,10 @@ export const WireframeOverlay: React.FC<WireframeOverlayProps> = ({
              <img 
                src={pose.imageUrl} 
                alt="Pose Overlay" 
+               onLoad={handleImageLoad}
                className="w-full h-full object-cover pointer-events-none select-none drop-shadow-lg"
              />
-        ) : (
+        ) : pose.svgPath && (
             <svg
               viewBox={pose.viewBox}
               className="w-full h-full drop-shadow-lg filter"
@@ -142,10 +221,39 @@ export const WireframeOverlay: React.FC<WireframeOverlayProps> = ({
                 filter: 'drop-shadow(0px 0px 4px rgba(0,0,0,0.8))'
               }}
             >
-              <path d={pose.svgPath} />
+              <path ref={pathRef} d={pose.svgPath} />
+            </svg>
+        )}
+
+        {/* Skeleton: stick figure over (or instead of) the outline; line weight stays in screen px at scale 1 */}
+        {skeletonGeometry && (
+            <svg
+              viewBox={`${skeletonBox.x} ${skeletonBox.y} ${skeletonBox.width} ${skeletonBox.height}`}
+              className="absolute inset-0 w-full h-full pointer-events-none"
+              style={{ filter: 'drop-shadow(0px 0px 4px rgba(0,0,0,0.8))' }}
+            >
+              <SkeletonShape
+                geometry={skeletonGeometry}
+                lineWidth={skeletonLineWeight * Math.max(skeletonBox.width / containerWidth, skeletonBox.height / containerHeight)}
+              />
             </svg>
         )}
         
+        {/* Touch Target: follows the guide's transform, so rotation and scale are hit-tested by the browser */}
+        <div
+          className="absolute pointer-events-auto touch-none"
+          style={{
+            left: hitRect.x - hitPadding,
+            top: hitRect.y - hitPadding,
+            width: hitRect.width + hitPadding * 2,
+            height: hitRect.height + hitPadding * 2,
+          }}
+          onTouchStart={handleTouchStart}
+          onTouchMove={handleTouchMove}
+          onTouchEnd={handleTouchEnd}
+          onTouchCancel={handleTouchEnd}
+        />
+
         {/* Subtle Guide Box */}
         <div className="absolute inset-4 border border-white/10 rounded-lg pointer-events-none opacity-50" />
         
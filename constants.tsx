@@ -1,36 +1,242 @@
-import { Pose } from './types';
+import { Pose, PoseCategory, KeypointName, AppSettings, PhotoEdits, CropAspect, CaptureMode, CaptureAspect, CompositionGrid, CameraFailure, FlashMode, TraceSettings } from './types';
 
 // Simplified wireframe paths resembling human poses
 export const POSES: Pose[] = [
   {
     id: 'standing-1',
     name: 'Casual Stand',
+    category: 'standing',
+    tags: ['站', '全身', '休閒', 'full body'],
     viewBox: "0 0 24 24",
     svgPath: "M12 2a2 2 0 1 0 0 4 2 2 0 0 0 0-4zm0 4c-1 0-2 1-2 2v4h4V8c0-1-1-2-2-2zm-2 6v6h-2v4h2v-4h2v4h2v-4h-2v-6h-2z"
   },
   {
     id: 'sitting-1',
     name: 'Sitting Lean',
+    category: 'sitting',
+    tags: ['坐', '椅子', 'chair'],
     viewBox: "0 0 24 24",
     svgPath: "M12 2a2 2 0 1 0 0 4 2 2 0 0 0 0-4zm-1 5c-1.1 0-2 .9-2 2v3h-2v2h2v5h2v-5h2v-3h2v-2c0-1.1-.9-2-2-2h-2zm-3 10v3h8v-3H8z"
   },
   {
     id: 'headshot-1',
     name: 'Headshot Frame',
+    category: 'headshot',
+    tags: ['大頭', '半身', '證件', 'portrait'],
     viewBox: "0 0 24 24",
     svgPath: "M12 2a5 5 0 1 0 0 10 5 5 0 0 0 0-10zm0 12c-3.3 0-6 1.7-6 4v2h12v-2c0-2.3-2.7-4-6-4z"
   },
   {
     id: 'couple-1',
     name: 'Couple',
+    category: 'couple',
+    tags: ['雙人', '情侶', '朋友', 'two'],
     viewBox: "0 0 24 24",
     svgPath: "M9 2a2 2 0 1 0 0 4 2 2 0 0 0 0-4zm6 0a2 2 0 1 0 0 4 2 2 0 0 0 0-4zm-6 5c-1.1 0-2 .9-2 2v5h2v6h2v-6h1v-5c0-1.1-.9-2-2-2h-1zm6 0c-1.1 0-2 .9-2 2v5h1v6h2v-6h2v-5c0-1.1-.9-2-2-2h-1z"
+  },
+  {
+    id: 'group-1',
+    name: 'Group Trio',
+    category: 'group',
+    tags: ['團體', '多人', '合照', 'friends'],
+    viewBox: "0 0 24 24",
+    svgPath: "M5 3a1.5 1.5 0 1 0 0 3 1.5 1.5 0 0 0 0-3zm7-1a2 2 0 1 0 0 4 2 2 0 0 0 0-4zm7 1a1.5 1.5 0 1 0 0 3 1.5 1.5 0 0 0 0-3zM3.5 7C2.7 7 2 7.7 2 8.5V14h1.5v6h3v-6H8V8.5C8 7.7 7.3 7 6.5 7h-3zm7 0C9.7 7 9 7.7 9 8.5V14h1.5v7h3v-7H15V8.5c0-.8-.7-1.5-1.5-1.5h-3zm7 0c-.8 0-1.5.7-1.5 1.5V14h1.5v6h3v-6H22V8.5c0-.8-.7-1.5-1.5-1.5h-3z"
+  },
+  {
+    id: 'skeleton-stand-1',
+    name: 'Hand on Hip',
+    category: 'standing',
+    tags: ['站', '全身', '插腰', '骨架', 'skeleton'],
+    viewBox: "0 0 24 24",
+    skeleton: {
+      nose: { x: 0.5, y: 0.12 },
+      leftEye: { x: 0.52, y: 0.105 },
+      rightEye: { x: 0.48, y: 0.105 },
+      leftEar: { x: 0.545, y: 0.115 },
+      rightEar: { x: 0.455, y: 0.115 },
+      leftShoulder: { x: 0.6, y: 0.24 },
+      rightShoulder: { x: 0.4, y: 0.24 },
+      leftElbow: { x: 0.68, y: 0.37 },
+      rightElbow: { x: 0.36, y: 0.38 },
+      leftWrist: { x: 0.59, y: 0.49 },
+      rightWrist: { x: 0.34, y: 0.51 },
+      leftHip: { x: 0.56, y: 0.52 },
+      rightHip: { x: 0.44, y: 0.52 },
+      leftKnee: { x: 0.56, y: 0.7 },
+      rightKnee: { x: 0.41, y: 0.71 },
+      leftAnkle: { x: 0.57, y: 0.9 },
+      rightAnkle: { x: 0.45, y: 0.89 },
+    }
   }
 ];
 
+// COCO keypoint order (also the order .posepack files list them in)
+export const SKELETON_KEYPOINTS: KeypointName[] = [
+  'nose', 'leftEye', 'rightEye', 'leftEar', 'rightEar',
+  'leftShoulder', 'rightShoulder', 'leftElbow', 'rightElbow', 'leftWrist', 'rightWrist',
+  'leftHip', 'rightHip', 'leftKnee', 'rightKnee', 'leftAnkle', 'rightAnkle',
+];
+
+// Limbs and torso of the stick figure; the face points are drawn as one head circle instead
+export const SKELETON_BONES: [KeypointName, KeypointName][] = [
+  ['leftShoulder', 'rightShoulder'], ['leftHip', 'rightHip'],
+  ['leftShoulder', 'leftHip'], ['rightShoulder', 'rightHip'],
+  ['leftShoulder', 'leftElbow'], ['leftElbow', 'leftWrist'],
+  ['rightShoulder', 'rightElbow'], ['rightElbow', 'rightWrist'],
+  ['leftHip', 'leftKnee'], ['leftKnee', 'leftAnkle'],
+  ['rightHip', 'rightKnee'], ['rightKnee', 'rightAnkle'],
+];
+
+export const SKELETON_LINE_WEIGHTS: { value: number; label: string }[] = [
+  { value: 2, label: '細' },
+  { value: 4, label: '中' },
+  { value: 6, label: '粗' },
+];
+
+export const POSE_CATEGORIES: { id: PoseCategory; label: string }[] = [
+  { id: 'standing', label: '站姿' },
+  { id: 'sitting', label: '坐姿' },
+  { id: 'headshot', label: '大頭照' },
+  { id: 'couple', label: '雙人' },
+  { id: 'group', label: '團體' },
+];
+
+// How many recently used poses the library remembers
+export const POSE_RECENTS_LIMIT = 8;
+
+// Pose artwork import limits; PNGs are scaled down to POSE_IMAGE_MAX_EDGE
+export const POSE_IMPORT_MAX_BYTES = 5 * 1024 * 1024;
+export const POSE_IMAGE_MAX_EDGE = 1024;
+
+// Tracing a pose from a photo: detection defaults and the size edges are found at (also the saved PNG's size)
+export const DEFAULT_TRACE_SETTINGS: TraceSettings = {
+  lowThreshold: 0.1,
+  highThreshold: 0.25,
+  smoothing: 1.4,
+};
+export const TRACE_MAX_EDGE = 768;
+
+// .posepack files: the newest format this build reads and writes, and a size cap for imports
+export const POSE_PACK_FORMAT_VERSION = 1;
+export const POSE_PACK_MAX_BYTES = 50 * 1024 * 1024;
+
 export const INITIAL_TRANSFORM = {
   x: 0,
   y: 0,
   scale: 1,
   rotation: 0,
-};
\ No newline at end of file
+};
+
+// Gallery storage limits
+export const GALLERY_QUOTA_BYTES = 512 * 1024 * 1024;
+export const THUMBNAIL_MAX_EDGE = 360;
+
+// Gallery filter key for captures taken without a pose guide
+export const NO_POSE_FILTER = '__none__';
+
+// Captures further apart than this start a new shooting session
+export const SESSION_GAP_MS = 30 * 60 * 1000;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  stripMetadata: false,
+  burnInGuide: false,
+  includeGuideLayer: false,
+  captureMode: 'single',
+  captureAspect: 'viewport',
+  compositionGrid: 'none',
+  showLevel: false,
+  recordGuide: false,
+  momentCapture: false,
+  skeletonLineWeight: 4,
+  preferredCameras: {},
+  intervalShots: 5,
+  intervalSeconds: 3,
+};
+
+export const EXIF_SOFTWARE = 'BF Camera';
+
+export const DEFAULT_EDITS: PhotoEdits = {
+  crop: 'original',
+  quarterTurns: 0,
+  straighten: 0,
+  flipH: false,
+  flipV: false,
+  exposure: 0,
+  contrast: 0,
+  saturation: 0,
+  warmth: 0,
+  vignette: 0,
+};
+
+export const CROP_ASPECTS: { id: CropAspect; label: string; ratio: number | null }[] = [
+  { id: 'original', label: '原始', ratio: null },
+  { id: '1:1', label: '1:1', ratio: 1 },
+  { id: '4:5', label: '4:5', ratio: 4 / 5 },
+  { id: '3:4', label: '3:4', ratio: 3 / 4 },
+  { id: '9:16', label: '9:16', ratio: 9 / 16 },
+  { id: '16:9', label: '16:9', ratio: 16 / 9 },
+];
+
+// Output framing for new captures. 'viewport' keeps exactly what the screen shows, 'full' the whole sensor frame.
+export const CAPTURE_ASPECTS: { id: CaptureAspect; label: string; ratio: number | null }[] = [
+  { id: 'viewport', label: '螢幕', ratio: null },
+  { id: '9:16', label: '9:16', ratio: 9 / 16 },
+  { id: '3:4', label: '3:4', ratio: 3 / 4 },
+  { id: '1:1', label: '1:1', ratio: 1 },
+  { id: '16:9', label: '16:9', ratio: 16 / 9 },
+  { id: 'full', label: 'FULL', ratio: null },
+];
+
+export const CAPTURE_MODES: { id: CaptureMode; label: string }[] = [
+  { id: 'single', label: '單張' },
+  { id: 'timer3', label: '3 秒' },
+  { id: 'timer10', label: '10 秒' },
+  { id: 'interval', label: '間隔' },
+  { id: 'burst', label: '連拍' },
+];
+
+export const INTERVAL_SHOT_OPTIONS = [3, 5, 10, 20];
+export const INTERVAL_SECOND_OPTIONS = [2, 3, 5, 10];
+
+// Burst frames are grabbed from the video element as fast as this allows, then encoded afterwards
+export const BURST_FRAME_COUNT = 10;
+export const BURST_FRAME_INTERVAL_MS = 100;
+
+export const COMPOSITION_GRIDS: { id: CompositionGrid; label: string }[] = [
+  { id: 'none', label: '無' },
+  { id: 'thirds', label: '三分' },
+  { id: 'golden', label: '黃金' },
+  { id: 'center', label: '中心' },
+  { id: 'safe', label: '安全框' },
+];
+
+// Within this many degrees the level indicator snaps flat and turns green
+export const LEVEL_TOLERANCE_DEG = 1;
+
+// Moment capture: a rolling buffer of the frames before the shutter. Older frames are downscaled
+// to MOMENT_PREVIEW_MAX_EDGE, then dropped, to stay within MOMENT_BUFFER_MAX_BYTES of decoded pixels.
+export const MOMENT_BUFFER_MS = 1500;
+export const MOMENT_BUFFER_FPS = 8;
+export const MOMENT_BUFFER_MAX_BYTES = 64 * 1024 * 1024;
+export const MOMENT_PREVIEW_MAX_EDGE = 720;
+
+// Zoom presets the zoom pill cycles through; each maps to a physical lens when the device exposes one
+export const ZOOM_PRESETS = [0.5, 1, 2, 5];
+
+// What to tell the user when the camera cannot run, and what the retry button says
+export const CAMERA_FAILURE_MESSAGES: Record<CameraFailure, { title: string; message: string; action: string }> = {
+  'denied': { title: '相機權限被拒絕', message: '請在瀏覽器的網站設定中允許使用相機，然後再試一次', action: '重試' },
+  'not-found': { title: '找不到相機', message: '請確認裝置有相機，或外接相機已經連接', action: '重新偵測' },
+  'in-use': { title: '相機正被佔用', message: '請關閉其他正在使用相機的 App 或分頁後再試', action: '重試' },
+  'overconstrained': { title: '相機無法套用設定', message: '選擇的鏡頭或解析度不受支援，將改用預設鏡頭', action: '改用預設鏡頭' },
+  'insecure': { title: '需要安全連線', message: '相機只能在 HTTPS 或 localhost 網址下使用', action: '重試' },
+  'interrupted': { title: '相機連線中斷', message: '相機可能被拔除，或被系統或其他 App 暫停', action: '重新連線' },
+  'unknown': { title: '無法存取相機', message: '發生未預期的錯誤，請再試一次', action: '重試' },
+};
+
+export const FLASH_MODES: FlashMode[] = ['off', 'auto', 'on'];
+
+// Night mode averages this many frames; auto flash switches to it below NIGHT_LUMA_THRESHOLD (0-255)
+export const NIGHT_FRAME_COUNT = 8;
+export const NIGHT_FRAME_INTERVAL_MS = 40;
+export const NIGHT_LUMA_THRESHOLD = 60;
@@ -1,9 +1,68 @@
+export type PoseCategory = 'standing' | 'sitting' | 'headshot' | 'couple' | 'group';
+
+// The 17 COCO body keypoints; left / right are the subject's own
+export type KeypointName =
+  | 'nose' | 'leftEye' | 'rightEye' | 'leftEar' | 'rightEar'
+  | 'leftShoulder' | 'rightShoulder' | 'leftElbow' | 'rightElbow' | 'leftWrist' | 'rightWrist'
+  | 'leftHip' | 'rightHip' | 'leftKnee' | 'rightKnee' | 'leftAnkle' | 'rightAnkle';
+
+export interface Keypoint {
+  x: number; // 0-1 across the pose's viewBox (or the whole guide box when it has none)
+  y: number;
+}
+
+export type PoseSkeleton = Partial<Record<KeypointName, Keypoint>>; // Missing joints are simply not drawn
+
 export interface Pose {
   id: string;
   name: string;
   svgPath?: string; // The path data for the SVG (optional if imageUrl is provided)
   viewBox?: string; // Optional if imageUrl is provided
   imageUrl?: string; // URL for raster images (e.g. AI generated)
+  category?: PoseCategory;
+  tags?: string[]; // Extra search terms
+  createdAt?: number; // Set on poses the user added; those live in IndexedDB and can be deleted
+  defaultTransform?: TransformState; // Where the guide starts when picked, e.g. from a pose pack
+  skeleton?: PoseSkeleton; // Semantic body model, drawn as a stick figure over (or instead of) the outline
+}
+
+// Shareable .posepack file: a versioned JSON collection of poses. PNG poses embed their artwork as base64.
+export interface PosePackPose {
+  id: string;
+  name: string;
+  category?: PoseCategory;
+  tags?: string[];
+  svgPath?: string;
+  viewBox?: string;
+  imageData?: string; // Base64 PNG, instead of svgPath + viewBox
+  skeleton?: PoseSkeleton;
+  defaultTransform?: TransformState;
+}
+
+export interface PosePack {
+  format: 'bf-camera-posepack';
+  formatVersion: number;
+  meta: {
+    name: string;
+    author?: string;
+    version: string; // The pack's own version, e.g. "1.2.0"
+    createdAt?: number;
+  };
+  poses: PosePackPose[];
+}
+
+// A generated pose kept in history; the camera frame it came from lives in its own store
+export interface AIPoseRecord {
+  id: string; // Same as pose.id
+  pose: Pose;
+  createdAt: number;
+  thumbnailUrl: string; // JPEG data URL: the pose over its dimmed reference frame
+}
+
+// Pose library bookkeeping, by pose id
+export interface PoseLibraryState {
+  favorites: string[];
+  recents: string[]; // Most recent first
 }
 
 export interface TransformState {
@@ -17,4 +76,129 @@ export interface TouchState {
   id: number;
   x: number;
   y: number;
-}
\ No newline at end of file
+}
+
+export type FacingMode = 'user' | 'environment';
+
+// idle: not opened yet · requesting: getUserMedia in flight · live: streaming · suspended: released while the
+// page is hidden · ended: failed or cut off, waiting for a retry · denied: camera permission refused
+export type CameraStatus = 'idle' | 'requesting' | 'live' | 'suspended' | 'ended' | 'denied';
+
+export type CameraFailure = 'denied' | 'not-found' | 'in-use' | 'overconstrained' | 'insecure' | 'interrupted' | 'unknown';
+
+export interface CameraState {
+  status: CameraStatus;
+  failure: CameraFailure | null; // Why the camera is ended / denied
+}
+
+// 'auto' shoots dark scenes with night stacking rather than the torch
+export type FlashMode = 'off' | 'auto' | 'on';
+
+export type LensKind = 'ultrawide' | 'wide' | 'telephoto' | 'multi' | 'external' | 'unknown';
+
+// A video input as reported by enumerateDevices, classified from its label
+export interface CameraDevice {
+  deviceId: string;
+  label: string; // Raw browser label, empty until camera permission is granted
+  facing: FacingMode | null; // null for external webcams and unlabelled devices
+  lens: LensKind;
+  zoomFactor: number | null; // Optical zoom relative to the main wide lens, when the label reveals it
+}
+
+// How the preview <video> was fitted to the screen: cropped to fill it, or letterboxed to show the full sensor
+export type PreviewFit = 'cover' | 'contain';
+
+export interface FrameRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Camera and guide state at the moment the shutter fired
+export interface CaptureMetadata {
+  facingMode: FacingMode;
+  cameraLabel?: string; // Browser label of the camera / lens used, e.g. "Back Ultra Wide Camera"
+  zoomLevel: number; // Relative to the main wide lens
+  pose: { id: string; name: string } | null;
+  poseTransform: TransformState | null;
+  torchFired: boolean;
+  sourceWidth: number; // Video stream resolution
+  sourceHeight: number;
+  viewportWidth: number; // Preview size the pose transform was set against
+  viewportHeight: number;
+  previewFit: PreviewFit;
+  captureRect: FrameRect; // Part of the source frame the photo keeps, in source pixels
+  burstId?: string; // Shared by every frame of one burst
+  nightFrames?: number; // Frames averaged by night mode
+  skeletonLineWeight?: number; // Stick figure line weight the guide was drawn with, for skeleton poses
+}
+
+export type CropAspect = 'original' | '1:1' | '4:5' | '3:4' | '9:16' | '16:9';
+
+// Edge detection parameters for tracing a pose outline from a photo
+export interface TraceSettings {
+  lowThreshold: number; // 0 to 1 of the strongest edge; weaker pixels never join an outline
+  highThreshold: number; // 0 to 1; pixels above this start an outline
+  smoothing: number; // Gaussian blur sigma in px, applied before detection
+}
+
+// Non-destructive edit parameters, applied on top of the untouched original at render time
+export interface PhotoEdits {
+  crop: CropAspect;
+  quarterTurns: number; // 0-3 clockwise 90° turns
+  straighten: number; // Degrees, -45 to 45
+  flipH: boolean;
+  flipV: boolean;
+  exposure: number; // -1 to 1 (stops)
+  contrast: number; // -1 to 1
+  saturation: number; // -1 to 1
+  warmth: number; // -1 to 1
+  vignette: number; // 0 to 1
+}
+
+export type CaptureKind = 'photo' | 'video';
+
+export interface CaptureRecord extends CaptureMetadata {
+  id: string;
+  sessionId: string;
+  kind: CaptureKind;
+  createdAt: number; // Epoch ms
+  byteSize: number;
+  width: number; // Saved image resolution (original, before edits); the poster frame for videos
+  height: number;
+  edits?: PhotoEdits;
+  durationMs?: number; // Videos only
+  mimeType?: string; // Videos only; photos are always JPEG
+  momentFrames?: number; // Frames kept from just before the shutter, including the one shown
+  momentIndex?: number; // Which of them is the photo; the shutter frame is the last
+}
+
+// A named group of captures, e.g. "Cafe shoot 10/18"
+export interface CaptureSession {
+  id: string;
+  name: string;
+  createdAt: number; // Epoch ms
+}
+
+export type CaptureAspect = 'viewport' | '9:16' | '3:4' | '1:1' | '16:9' | 'full';
+
+export type CompositionGrid = 'none' | 'thirds' | 'golden' | 'center' | 'safe';
+
+export type CaptureMode = 'single' | 'timer3' | 'timer10' | 'interval' | 'burst';
+
+export interface AppSettings {
+  stripMetadata: boolean; // Export photos without EXIF (date, pose, camera info)
+  burnInGuide: boolean; // Draw the guide pose onto exported photos
+  includeGuideLayer: boolean; // Export the guide as a separate transparent PNG
+  captureMode: CaptureMode;
+  captureAspect: CaptureAspect;
+  compositionGrid: CompositionGrid;
+  showLevel: boolean; // Horizon / tilt indicator in the viewfinder
+  recordGuide: boolean; // Composite the wireframe into recorded videos
+  momentCapture: boolean; // Keep the frames just before the shutter to pick from later
+  skeletonLineWeight: number; // Screen px of the stick figure drawn for poses with a skeleton
+  preferredCameras: Partial<Record<FacingMode, string>>; // deviceId chosen for each facing direction
+  intervalShots: number;
+  intervalSeconds: number;
+}
@@ -0,0 +1,77 @@
+import { AIPoseRecord, Pose } from '../types';
+import { THUMBNAIL_MAX_EDGE } from '../constants';
+import { STORES, openDatabase, requestToPromise, transactionDone, ensureStorageHeadroom } from './db';
+import { loadPoseImage } from './compositing';
+
+// Every AI generation lands here so a mis-tap never loses it. aiPoses holds the records (pose included),
+// aiPoseFrames the JPEG camera frame each pose was generated from.
+
+// The pose drawn over its reference frame, dimmed so the white lines read
+const createAIPoseThumbnail = async (pose: Pose, referenceFrame: Blob): Promise<string> => {
+  const [frame, poseImage] = await Promise.all([createImageBitmap(referenceFrame), loadPoseImage(pose, 0, 0)]);
+  const ratio = THUMBNAIL_MAX_EDGE / Math.max(poseImage.width, poseImage.height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(poseImage.width * ratio);
+  canvas.height = Math.round(poseImage.height * ratio);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    frame.close();
+    throw new Error('Could not get canvas context');
+  }
+
+  // Cover-fit the frame, the way the viewfinder showed it behind the guide
+  const k = Math.max(canvas.width / frame.width, canvas.height / frame.height);
+  ctx.drawImage(frame, (canvas.width - frame.width * k) / 2, (canvas.height - frame.height * k) / 2, frame.width * k, frame.height * k);
+  frame.close();
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.45)';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(poseImage, 0, 0, canvas.width, canvas.height);
+
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+export const loadAIPoseHistory = async (): Promise<AIPoseRecord[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.aiPoses, 'readonly');
+  const records = await requestToPromise<AIPoseRecord[]>(tx.objectStore(STORES.aiPoses).getAll());
+  return records.sort((a, b) => b.createdAt - a.createdAt); // Newest first
+};
+
+export const saveAIPose = async (pose: Pose, referenceFrame: Blob): Promise<AIPoseRecord> => {
+  const record: AIPoseRecord = {
+    id: pose.id,
+    pose,
+    createdAt: Date.now(),
+    thumbnailUrl: await createAIPoseThumbnail(pose, referenceFrame),
+  };
+  await ensureStorageHeadroom(referenceFrame.size + (pose.imageUrl?.length ?? 0) + record.thumbnailUrl.length);
+
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.aiPoses, STORES.aiPoseFrames], 'readwrite');
+  tx.objectStore(STORES.aiPoses).put(record);
+  tx.objectStore(STORES.aiPoseFrames).put(referenceFrame, record.id);
+  await transactionDone(tx);
+  return record;
+};
+
+export const updateAIPose = async (record: AIPoseRecord): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.aiPoses, 'readwrite');
+  tx.objectStore(STORES.aiPoses).put(record);
+  await transactionDone(tx);
+};
+
+export const getAIPoseFrame = async (id: string): Promise<Blob | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.aiPoseFrames, 'readonly');
+  return requestToPromise<Blob | undefined>(tx.objectStore(STORES.aiPoseFrames).get(id));
+};
+
+export const deleteAIPose = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.aiPoses, STORES.aiPoseFrames], 'readwrite');
+  tx.objectStore(STORES.aiPoses).delete(id);
+  tx.objectStore(STORES.aiPoseFrames).delete(id);
+  await transactionDone(tx);
+};
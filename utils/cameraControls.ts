@@ -0,0 +1,54 @@
+// Focus / exposure controls from the Image Capture extensions to MediaStreamTrack.
+// TS DOM types do not know these constraints yet, hence the casts.
+
+export interface CameraControlSupport {
+  pointsOfInterest: boolean;
+  focusModes: string[];
+  exposureModes: string[];
+  exposureCompensation: { min: number; max: number; step: number } | null;
+}
+
+export const getCameraControlSupport = (track: MediaStreamTrack): CameraControlSupport => {
+  const capabilities = (track.getCapabilities?.() ?? {}) as any;
+  const settings = track.getSettings() as any;
+  const compensation = capabilities.exposureCompensation;
+
+  return {
+    pointsOfInterest: 'pointsOfInterest' in settings || 'pointsOfInterest' in capabilities,
+    focusModes: capabilities.focusMode ?? [],
+    exposureModes: capabilities.exposureMode ?? [],
+    exposureCompensation: compensation && compensation.max > compensation.min
+      ? { min: compensation.min, max: compensation.max, step: compensation.step || 0.1 }
+      : null,
+  };
+};
+
+export const canFocusAtPoint = (support: CameraControlSupport | null) => !!support?.pointsOfInterest;
+
+// A lock needs a mode that meters once and then holds
+export const canLockFocusExposure = (support: CameraControlSupport | null) =>
+  !!support && (support.focusModes.includes('single-shot') || support.exposureModes.includes('single-shot'));
+
+const pickMode = (modes: string[], preferred: string[]) => preferred.find(m => modes.includes(m));
+
+// Meter focus and exposure at `point` (0-1 in video frame coordinates).
+// Locked: measure once and hold; otherwise keep tracking around the point.
+export const focusAtPoint = async (
+  track: MediaStreamTrack,
+  support: CameraControlSupport,
+  point: { x: number; y: number },
+  lock: boolean
+) => {
+  const preferred = lock ? ['single-shot', 'manual'] : ['continuous', 'single-shot'];
+  const constraint: Record<string, unknown> = { pointsOfInterest: [point] };
+  const focusMode = pickMode(support.focusModes, preferred);
+  const exposureMode = pickMode(support.exposureModes, preferred);
+  if (focusMode) constraint.focusMode = focusMode;
+  if (exposureMode) constraint.exposureMode = exposureMode;
+
+  await track.applyConstraints({ advanced: [constraint as any] });
+};
+
+export const setExposureCompensation = async (track: MediaStreamTrack, value: number) => {
+  await track.applyConstraints({ advanced: [{ exposureCompensation: value } as any] });
+};
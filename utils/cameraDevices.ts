@@ -0,0 +1,73 @@
+import { CameraDevice, FacingMode, LensKind } from '../types';
+
+// Browsers expose lenses only through their labels, e.g. iOS "Back Ultra Wide Camera" or Android
+// "camera2 2, facing back". Anything without a facing hint is treated as an external webcam.
+const FRONT_PATTERN = /front|facing front|user|前/i;
+const BACK_PATTERN = /back|rear|facing back|environment|後/i;
+const DEFAULT_TELEPHOTO_ZOOM = 2; // iOS does not say which telephoto it is
+
+const LENS_NAMES: Record<LensKind, string> = {
+  ultrawide: '超廣角',
+  wide: '廣角',
+  telephoto: '長焦',
+  multi: '自動切換',
+  external: '外接',
+  unknown: '相機',
+};
+
+const getFacing = (label: string): FacingMode | null => {
+  if (FRONT_PATTERN.test(label)) return 'user';
+  if (BACK_PATTERN.test(label)) return 'environment';
+  return null;
+};
+
+const getLens = (label: string, facing: FacingMode | null): LensKind => {
+  if (!label) return 'unknown';
+  if (/ultra ?wide|超廣角/i.test(label)) return 'ultrawide';
+  if (/dual|triple/i.test(label)) return 'multi'; // iOS virtual cameras that switch lenses by themselves
+  if (/tele|長焦|望遠/i.test(label)) return 'telephoto';
+  return facing ? 'wide' : 'external';
+};
+
+const getZoomFactor = (label: string, lens: LensKind): number | null => {
+  if (lens === 'ultrawide') return 0.5;
+  if (lens === 'wide') return 1;
+  if (lens === 'telephoto') {
+    const match = label.match(/(\d+(?:\.\d+)?)\s*[x×]/i);
+    return match ? Number(match[1]) : DEFAULT_TELEPHOTO_ZOOM;
+  }
+  return null;
+};
+
+export const describeCameraDevice = ({ deviceId, label }: { deviceId: string; label: string }): CameraDevice => {
+  const facing = getFacing(label);
+  const lens = getLens(label, facing);
+  return { deviceId, label, facing, lens, zoomFactor: getZoomFactor(label, lens) };
+};
+
+// Video inputs in a stable order: back lenses from widest, then front, then everything else.
+// Before camera permission is granted most browsers hide device ids, so this may come back empty.
+export const listCameraDevices = async (): Promise<CameraDevice[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const inputs = (await navigator.mediaDevices.enumerateDevices()).filter(d => d.kind === 'videoinput' && d.deviceId);
+  const rank = (d: CameraDevice) => d.facing === 'environment' ? 0 : d.facing === 'user' ? 1 : 2;
+  return inputs
+    .map(describeCameraDevice)
+    .sort((a, b) => rank(a) - rank(b) || (a.zoomFactor ?? 1) - (b.zoomFactor ?? 1));
+};
+
+// "後鏡頭 · 超廣角 0.5x"; external and unrecognised cameras keep their own label
+export const getCameraDeviceTitle = (device: CameraDevice, index: number) => {
+  if (!device.facing) return device.label || `${LENS_NAMES[device.lens]} ${index + 1}`;
+  const side = device.facing === 'user' ? '前鏡頭' : '後鏡頭';
+  return `${side} · ${LENS_NAMES[device.lens]}${device.zoomFactor !== null ? ` ${device.zoomFactor}x` : ''}`;
+};
+
+// The lens for an overall zoom of `target`: the longest one facing this way that does not exceed it,
+// leaving the rest to digital zoom. null when no lens facing this way has a known factor.
+export const pickLensForZoom = (devices: CameraDevice[], facing: FacingMode, target: number): CameraDevice | null => {
+  return devices.reduce<CameraDevice | null>((best, device) => {
+    if (device.facing !== facing || device.zoomFactor === null || device.zoomFactor > target + 0.001) return best;
+    return !best || device.zoomFactor > best.zoomFactor! ? device : best;
+  }, null);
+};
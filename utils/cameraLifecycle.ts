@@ -0,0 +1,95 @@
+import { CameraFailure, CameraState, FacingMode } from '../types';
+
+export const INITIAL_CAMERA_STATE: CameraState = { status: 'idle', failure: null };
+
+export type CameraEvent =
+  | { type: 'request' }
+  | { type: 'started' }
+  | { type: 'failed'; failure: CameraFailure }
+  | { type: 'track-ended' }
+  | { type: 'suspend' };
+
+export const transitionCamera = (state: CameraState, event: CameraEvent): CameraState => {
+  switch (event.type) {
+    case 'request':
+      return { status: 'requesting', failure: null };
+    case 'started':
+      return { status: 'live', failure: null };
+    case 'failed':
+      return { status: event.failure === 'denied' ? 'denied' : 'ended', failure: event.failure };
+    case 'track-ended':
+      return state.status === 'live' ? { status: 'ended', failure: 'interrupted' } : state;
+    case 'suspend':
+      // A failure stays on screen; coming back retries it anyway
+      return state.status === 'live' || state.status === 'requesting' ? { status: 'suspended', failure: null } : state;
+  }
+};
+
+export const classifyCameraError = (error: unknown): CameraFailure => {
+  if (!window.isSecureContext) return 'insecure'; // mediaDevices is undefined on plain http
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return 'denied';
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      return 'not-found';
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return 'in-use';
+    case 'OverconstrainedError':
+    case 'ConstraintNotSatisfiedError':
+      return 'overconstrained';
+    default:
+      return 'unknown';
+  }
+};
+
+// Tried in order until one opens: the saved lens, the facing direction at the preferred resolution,
+// the facing direction alone, then any camera at all
+export const getConstraintLadder = (facingMode: FacingMode, preferredDeviceId?: string): MediaTrackConstraints[] => {
+  const resolution = { width: { ideal: 1920 }, height: { ideal: 1080 } };
+  return [
+    ...(preferredDeviceId ? [{ ...resolution, deviceId: { exact: preferredDeviceId } }] : []),
+    { ...resolution, facingMode },
+    { facingMode },
+    {},
+  ];
+};
+
+// Walk the ladder, relaxing only on constraint / missing-device errors. Permission and busy-camera
+// errors would fail the same way on every step, so they are thrown straight away.
+export const openCameraStream = async (ladder: MediaTrackConstraints[]): Promise<MediaStream> => {
+  let lastError: unknown = new Error('No camera constraints to try');
+  for (const video of ladder) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: false, // Main camera stream doesn't need audio, we handle mic separately for AI
+        video,
+      });
+    } catch (e) {
+      const failure = classifyCameraError(e);
+      if (failure !== 'overconstrained' && failure !== 'not-found') throw e;
+      console.warn('Camera constraints rejected, relaxing', video, e);
+      lastError = e;
+    }
+  }
+  throw lastError;
+};
+
+// Permissions API watch for the camera; resolves to a cleanup. Browsers that cannot query 'camera'
+// (older Safari, Firefox) simply never report changes.
+export const watchCameraPermission = async (onChange: (state: PermissionState) => void): Promise<() => void> => {
+  try {
+    const status = await navigator.permissions.query({ name: 'camera' as PermissionName });
+    const handleChange = () => onChange(status.state);
+    status.addEventListener('change', handleChange);
+    return () => status.removeEventListener('change', handleChange);
+  } catch (e) {
+    console.warn('Camera permission changes cannot be watched', e);
+    return () => {};
+  }
+};
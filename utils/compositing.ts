@@ -0,0 +1,153 @@
+import { Pose, TransformState, PreviewFit, FrameRect, CaptureRecord } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { getSkeletonGeometry, parseViewBox, skeletonToSvgMarkup } from './skeleton';
+
+// Screen and source sizes needed to map WireframeOverlay's screen-space transform onto a video frame.
+// The preview <video> is scaled by the cover (or contain) factor and centered on screen.
+export interface FrameMapping {
+  screenWidth: number;
+  screenHeight: number;
+  sourceWidth: number;
+  sourceHeight: number;
+  fit?: PreviewFit; // Defaults to 'cover'
+  crop?: FrameRect; // Part of the source the target canvas holds; defaults to the whole frame
+}
+
+export const getCoverScale = ({ screenWidth, screenHeight, sourceWidth, sourceHeight }: FrameMapping): number => {
+  return Math.max(screenWidth / sourceWidth, screenHeight / sourceHeight);
+};
+
+// Screen pixels per source pixel in the preview
+export const getPreviewScale = (mapping: FrameMapping): number => {
+  const { screenWidth, screenHeight, sourceWidth, sourceHeight } = mapping;
+  return mapping.fit === 'contain'
+    ? Math.min(screenWidth / sourceWidth, screenHeight / sourceHeight)
+    : getCoverScale(mapping);
+};
+
+// Region of the source a capture keeps: the part visible on screen, trimmed to `ratio` (width / height)
+// around its center. With a 'contain' preview the whole frame is visible.
+export const getCaptureRect = (mapping: FrameMapping, ratio: number | null): FrameRect => {
+  const scale = getPreviewScale(mapping);
+  let width = Math.min(mapping.sourceWidth, mapping.screenWidth / scale);
+  let height = Math.min(mapping.sourceHeight, mapping.screenHeight / scale);
+
+  if (ratio) {
+    if (width / height > ratio) width = height * ratio;
+    else height = width / ratio;
+  }
+
+  width = Math.round(width);
+  height = Math.round(height);
+  return {
+    x: Math.round((mapping.sourceWidth - width) / 2),
+    y: Math.round((mapping.sourceHeight - height) / 2),
+    width,
+    height,
+  };
+};
+
+// Where a source rect sits on screen, for drawing the viewfinder mask
+export const sourceRectToScreen = (rect: FrameRect, mapping: FrameMapping): FrameRect => {
+  const scale = getPreviewScale(mapping);
+  return {
+    x: (rect.x - mapping.sourceWidth / 2) * scale + mapping.screenWidth / 2,
+    y: (rect.y - mapping.sourceHeight / 2) * scale + mapping.screenHeight / 2,
+    width: rect.width * scale,
+    height: rect.height * scale,
+  };
+};
+
+// Load a pose as an image the size of the overlay box, ready for ctx.drawImage.
+// SVG and skeleton poses are rasterized with the same stroke style WireframeOverlay uses.
+export const loadPoseImage = (pose: Pose, boxWidth: number, boxHeight: number, skeletonLineWeight = DEFAULT_SETTINGS.skeletonLineWeight): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = (e) => reject(e);
+
+    if (pose.imageUrl) {
+      img.src = pose.imageUrl;
+    } else {
+      // Skeletons are laid out like the overlay lays them out: in the viewBox, or across the whole box without one
+      const viewBox = pose.viewBox ?? (pose.skeleton ? `0 0 ${boxWidth} ${boxHeight}` : '0 0 24 24');
+      const box = parseViewBox(viewBox);
+      const skeleton = pose.skeleton
+        ? skeletonToSvgMarkup(getSkeletonGeometry(pose.skeleton, box), skeletonLineWeight * Math.max(box.width / boxWidth, box.height / boxHeight))
+        : '';
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${boxWidth}" height="${boxHeight}" viewBox="${viewBox}">`
+        + (pose.svgPath ? `<path d="${pose.svgPath}" fill="none" stroke="white" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round" opacity="0.8"/>` : '')
+        + skeleton
+        + `</svg>`;
+      img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    }
+  });
+};
+
+// Draw a pose image onto a canvas holding the source frame (or its `crop`), placed where the user saw it on screen
+export const drawPoseGuide = (
+  ctx: CanvasRenderingContext2D,
+  poseImage: CanvasImageSource & { width: number; height: number },
+  transform: TransformState,
+  mapping: FrameMapping
+) => {
+  const canvas = ctx.canvas;
+  const crop = mapping.crop ?? { x: 0, y: 0, width: mapping.sourceWidth, height: mapping.sourceHeight };
+  const canvasScaleFactor = canvas.width / crop.width;
+  const conversionRatio = (1 / getPreviewScale(mapping)) * canvasScaleFactor;
+
+  // The screen center is the source center, which need not be the center of the crop
+  ctx.save();
+  ctx.translate((mapping.sourceWidth / 2 - crop.x) * canvasScaleFactor, (mapping.sourceHeight / 2 - crop.y) * canvasScaleFactor);
+  ctx.translate(transform.x * conversionRatio, transform.y * conversionRatio);
+  ctx.rotate(transform.rotation * Math.PI / 180);
+  ctx.scale(transform.scale, transform.scale);
+
+  const drawW = mapping.screenWidth * conversionRatio;
+  const drawH = mapping.screenHeight * conversionRatio;
+
+  // Match the overlay's object-cover: fill the box, crop the overflow
+  const fit = Math.max(drawW / poseImage.width, drawH / poseImage.height);
+  const imgW = poseImage.width * fit;
+  const imgH = poseImage.height * fit;
+
+  ctx.beginPath();
+  ctx.rect(-drawW / 2, -drawH / 2, drawW, drawH);
+  ctx.clip();
+  ctx.drawImage(poseImage, -imgW / 2, -imgH / 2, imgW, imgH);
+  ctx.restore();
+};
+
+// Transparent layer the size of a capture with its guide pose drawn where it was on screen at the shutter
+export const renderCaptureGuide = async (record: CaptureRecord, pose: Pose, maxEdge = Infinity): Promise<HTMLCanvasElement> => {
+  const ratio = Math.min(1, maxEdge / Math.max(record.width, record.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(record.width * ratio);
+  canvas.height = Math.round(record.height * ratio);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  // Same line weight as on screen at the shutter (records from before it was stored get the default)
+  const poseImage = await loadPoseImage(pose, record.viewportWidth, record.viewportHeight, record.skeletonLineWeight);
+  drawPoseGuide(ctx, poseImage, record.poseTransform!, {
+    screenWidth: record.viewportWidth,
+    screenHeight: record.viewportHeight,
+    sourceWidth: record.sourceWidth,
+    sourceHeight: record.sourceHeight,
+    fit: record.previewFit,
+    crop: record.captureRect,
+  });
+
+  return canvas;
+};
+
+// Screen point to a 0-1 position in the raw video frame, undoing the preview's fit and CSS mirroring.
+// Null when the point lies outside the frame (the letterbox bars of a 'contain' preview).
+export const screenToSourcePoint = (point: { x: number; y: number }, mapping: FrameMapping, mirrored: boolean) => {
+  const scale = getPreviewScale(mapping);
+  let x = ((point.x - mapping.screenWidth / 2) / scale + mapping.sourceWidth / 2) / mapping.sourceWidth;
+  const y = ((point.y - mapping.screenHeight / 2) / scale + mapping.sourceHeight / 2) / mapping.sourceHeight;
+  if (mirrored) x = 1 - x;
+  return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null;
+};
@@ -0,0 +1,112 @@
+// Shared IndexedDB plumbing for everything the app persists locally.
+
+const DB_NAME = 'bf-camera';
+const DB_VERSION = 7;
+
+export const STORES = {
+  photoMeta: 'photoMeta',
+  photoBlobs: 'photoBlobs',
+  photoThumbs: 'photoThumbs',
+  capturePoses: 'capturePoses',
+  sessions: 'sessions',
+  videoPosters: 'videoPosters',
+  momentFrames: 'momentFrames',
+  customPoses: 'customPoses',
+  aiPoses: 'aiPoses',
+  aiPoseFrames: 'aiPoseFrames',
+} as const;
+
+export class StorageFullError extends Error {
+  constructor(message = 'Device storage is full') {
+    super(message);
+    this.name = 'StorageFullError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    // Each step upgrades from the previous version, so existing installs keep their data
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(STORES.photoMeta, { keyPath: 'id' });
+        db.createObjectStore(STORES.photoBlobs);
+        db.createObjectStore(STORES.photoThumbs);
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(STORES.capturePoses, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 4) {
+        db.createObjectStore(STORES.videoPosters);
+      }
+      if (event.oldVersion < 5) {
+        db.createObjectStore(STORES.momentFrames);
+      }
+      if (event.oldVersion < 6) {
+        db.createObjectStore(STORES.customPoses, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 7) {
+        db.createObjectStore(STORES.aiPoses, { keyPath: 'id' });
+        db.createObjectStore(STORES.aiPoseFrames);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+// Resolves when the transaction commits; quota failures surface as StorageFullError
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const fail = () => {
+      reject(isQuotaError(tx.error) ? new StorageFullError() : tx.error ?? new Error('Transaction aborted'));
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = fail;
+    tx.onabort = fail;
+  });
+};
+
+// Throws StorageFullError if writing `bytes` more would exceed the browser's quota
+export const ensureStorageHeadroom = async (bytes: number) => {
+  if (!navigator.storage?.estimate) return;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  if (quota > 0 && usage + bytes > quota * 0.95) {
+    throw new StorageFullError();
+  }
+};
+
+// Ask the browser not to evict our data under storage pressure (best effort)
+export const requestPersistentStorage = async () => {
+  try {
+    if (navigator.storage?.persist && !(await navigator.storage.persisted())) {
+      await navigator.storage.persist();
+    }
+  } catch (e) {
+    console.warn('Persistent storage request failed', e);
+  }
+};
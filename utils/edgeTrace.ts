@@ -0,0 +1,163 @@
+import { TraceSettings } from '../types';
+
+// Canny edge detection for turning a reference photo into a pose outline, entirely on the CPU:
+// blur, Sobel gradients, thinning to 1px ridges, then hysteresis between the two thresholds.
+
+const MIN_FRAGMENT_PIXELS = 12; // Shorter edge fragments are texture or noise, not outline
+
+const toLuma = (rgba: Uint8ClampedArray, size: number): Float32Array => {
+  const luma = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    luma[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return luma;
+};
+
+// Separable Gaussian blur; edges of the image are clamped
+const gaussianBlur = (src: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+  if (sigma <= 0) return src;
+  const radius = Math.ceil(sigma * 2);
+  const kernel = new Float32Array(radius * 2 + 1);
+  let total = 0;
+  for (let i = -radius; i <= radius; i++) {
+    kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+    total += kernel[i + radius];
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= total;
+
+  const pass = (input: Float32Array, horizontal: boolean) => {
+    const output = new Float32Array(input.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sx = horizontal ? Math.min(width - 1, Math.max(0, x + k)) : x;
+          const sy = horizontal ? y : Math.min(height - 1, Math.max(0, y + k));
+          sum += input[sy * width + sx] * kernel[k + radius];
+        }
+        output[y * width + x] = sum;
+      }
+    }
+    return output;
+  };
+  return pass(pass(src, true), false);
+};
+
+// Drops connected edge groups (8-neighbour) smaller than MIN_FRAGMENT_PIXELS
+const removeFragments = (edges: Uint8Array, width: number, height: number) => {
+  const seen = new Uint8Array(edges.length);
+  const stack: number[] = [];
+  const group: number[] = [];
+  for (let start = 0; start < edges.length; start++) {
+    if (!edges[start] || seen[start]) continue;
+    group.length = 0;
+    stack.push(start);
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      group.push(i);
+      const x = i % width;
+      const y = (i - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (edges[n] && !seen[n]) {
+            seen[n] = 1;
+            stack.push(n);
+          }
+        }
+      }
+    }
+    if (group.length < MIN_FRAGMENT_PIXELS) group.forEach(i => { edges[i] = 0; });
+  }
+};
+
+// 1 where an outline passes, 0 elsewhere. Thresholds are relative to the image's strongest edge,
+// so the same settings behave alike on dim and contrasty photos.
+export const detectEdges = (image: ImageData, settings: TraceSettings): Uint8Array => {
+  const { width, height } = image;
+  const size = width * height;
+  const luma = gaussianBlur(toLuma(image.data, size), width, height, settings.smoothing);
+
+  // Sobel gradient magnitude, with the direction quantized to 0°, 45°, 90° or 135°
+  const magnitude = new Float32Array(size);
+  const direction = new Uint8Array(size);
+  let max = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = luma[i - width + 1] + 2 * luma[i + 1] + luma[i + width + 1]
+        - luma[i - width - 1] - 2 * luma[i - 1] - luma[i + width - 1];
+      const gy = luma[i + width - 1] + 2 * luma[i + width] + luma[i + width + 1]
+        - luma[i - width - 1] - 2 * luma[i - width] - luma[i - width + 1];
+      magnitude[i] = Math.hypot(gx, gy);
+      if (magnitude[i] > max) max = magnitude[i];
+      const angle = ((Math.atan2(gy, gx) * 180) / Math.PI + 180) % 180;
+      direction[i] = angle < 22.5 || angle >= 157.5 ? 0 : angle < 67.5 ? 1 : angle < 112.5 ? 2 : 3;
+    }
+  }
+  if (max === 0) return new Uint8Array(size);
+
+  // Non-maximum suppression: keep a pixel only if it is the ridge across the gradient (ties go to one side, so flat ridges stay 1px)
+  const offsets = [1, width + 1, width, width - 1];
+  const thin = new Float32Array(size);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const o = offsets[direction[i]];
+      if (magnitude[i] >= magnitude[i + o] && magnitude[i] > magnitude[i - o]) thin[i] = magnitude[i] / max;
+    }
+  }
+
+  // Hysteresis: strong pixels seed outlines that grow through weak ones
+  const low = Math.max(0.01, Math.min(settings.lowThreshold, settings.highThreshold)); // Above 0 keeps growth off the unset border
+  const edges = new Uint8Array(size);
+  const stack: number[] = [];
+  for (let i = 0; i < size; i++) {
+    if (thin[i] >= settings.highThreshold) {
+      edges[i] = 1;
+      stack.push(i);
+    }
+  }
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    for (const n of [i - width - 1, i - width, i - width + 1, i - 1, i + 1, i + width - 1, i + width, i + width + 1]) {
+      if (!edges[n] && thin[n] >= low) {
+        edges[n] = 1;
+        stack.push(n);
+      }
+    }
+  }
+
+  removeFragments(edges, width, height);
+  return edges;
+};
+
+// Draws edges as white lines on transparent, thickened by `lineWidth` px so thin ridges stay visible as a guide
+export const drawEdges = (edges: Uint8Array, width: number, height: number, lineWidth: number, target: HTMLCanvasElement) => {
+  target.width = width;
+  target.height = height;
+  const ctx = target.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const radius = Math.max(0, Math.round((lineWidth - 1) / 2));
+  const image = ctx.createImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!edges[y * width + x]) continue;
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const o = (ny * width + nx) * 4;
+          image.data[o] = image.data[o + 1] = image.data[o + 2] = image.data[o + 3] = 255;
+        }
+      }
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+};
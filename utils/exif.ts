@@ -0,0 +1,199 @@
+// JPEG EXIF writer. canvas.toBlob() emits bare JPEGs, so export injects an APP1 segment
+// with the tags photo libraries rely on for sorting and display.
+
+export interface ExifFields {
+  dateTimeOriginal: Date;
+  orientation: number; // 1 = upright; captures are drawn upright already
+  software: string;
+  imageDescription?: string;
+  userComment?: string;
+  lensModel?: string;
+  pixelWidth: number;
+  pixelHeight: number;
+}
+
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_UNDEFINED = 7;
+
+const TYPE_SIZES: Record<number, number> = { [TYPE_BYTE]: 1, [TYPE_ASCII]: 1, [TYPE_SHORT]: 2, [TYPE_LONG]: 4, [TYPE_UNDEFINED]: 1 };
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  values: Uint8Array | number[]; // Raw bytes for BYTE/ASCII/UNDEFINED, numbers for SHORT/LONG
+}
+
+const encoder = new TextEncoder();
+
+const isPlainAscii = (text: string) => /^[\x00-\x7f]*$/.test(text);
+
+// ASCII tags hold 7-bit text only; anything else is replaced rather than written as garbled UTF-8
+const ascii = (tag: number, text: string): IfdEntry => {
+  const bytes = encoder.encode(text.replace(/[^\x00-\x7f]/g, '?'));
+  const values = new Uint8Array(bytes.length + 1); // NUL terminated
+  values.set(bytes);
+  return { tag, type: TYPE_ASCII, values };
+};
+
+// Little endian like the rest of the TIFF structure
+const utf16le = (text: string) => {
+  const bytes = new Uint8Array(text.length * 2);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i * 2] = text.charCodeAt(i) & 0xff;
+    bytes[i * 2 + 1] = text.charCodeAt(i) >> 8;
+  }
+  return bytes;
+};
+
+// Windows XP* tags: UTF-16LE, NUL terminated, stored as BYTE
+const xpText = (tag: number, text: string): IfdEntry => {
+  const bytes = utf16le(text);
+  const values = new Uint8Array(bytes.length + 2);
+  values.set(bytes);
+  return { tag, type: TYPE_BYTE, values };
+};
+
+const formatExifDate = (d: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}:${pad(d.getMonth() + 1)}:${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+const entryByteLength = (entry: IfdEntry) => entry.values.length * TYPE_SIZES[entry.type];
+
+const ifdByteLength = (entries: IfdEntry[]) => {
+  // Count + 12 bytes per entry + next-IFD offset, then out-of-line values (word aligned)
+  let length = 2 + entries.length * 12 + 4;
+  for (const entry of entries) {
+    const size = entryByteLength(entry);
+    if (size > 4) length += size + (size % 2);
+  }
+  return length;
+};
+
+// Write an IFD at `offset` within the TIFF buffer, values larger than 4 bytes go right after it
+const writeIfd = (view: DataView, bytes: Uint8Array, offset: number, entries: IfdEntry[]) => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+
+  view.setUint16(offset, sorted.length, true);
+  sorted.forEach((entry, i) => {
+    const at = offset + 2 + i * 12;
+    const size = entryByteLength(entry);
+    view.setUint16(at, entry.tag, true);
+    view.setUint16(at + 2, entry.type, true);
+    view.setUint32(at + 4, entry.values.length, true);
+
+    const valueAt = size > 4 ? dataOffset : at + 8;
+    if (size > 4) {
+      view.setUint32(at + 8, dataOffset, true);
+      dataOffset += size + (size % 2);
+    }
+
+    if (entry.values instanceof Uint8Array) {
+      bytes.set(entry.values, valueAt);
+    } else {
+      entry.values.forEach((value, j) => {
+        if (entry.type === TYPE_SHORT) view.setUint16(valueAt + j * 2, value, true);
+        else view.setUint32(valueAt + j * 4, value, true);
+      });
+    }
+  });
+  view.setUint32(offset + 2 + sorted.length * 12, 0, true); // No next IFD
+};
+
+const buildExifSegment = (fields: ExifFields): Uint8Array => {
+  const dateText = formatExifDate(fields.dateTimeOriginal);
+
+  const ifd0: IfdEntry[] = [
+    { tag: 0x0112, type: TYPE_SHORT, values: [fields.orientation] },
+    ascii(0x0131, fields.software),
+    ascii(0x0132, dateText),
+    { tag: 0x8769, type: TYPE_LONG, values: [0] }, // Exif IFD pointer, patched below
+  ];
+  // ImageDescription is always written; non-ASCII text (e.g. Chinese pose names) is lossy there,
+  // so XPTitle carries the full text for readers that decode it as Unicode
+  if (fields.imageDescription) {
+    ifd0.push(ascii(0x010e, fields.imageDescription));
+    if (!isPlainAscii(fields.imageDescription)) ifd0.push(xpText(0x9c9b, fields.imageDescription));
+  }
+
+  const exifIfd: IfdEntry[] = [
+    { tag: 0x9000, type: TYPE_UNDEFINED, values: encoder.encode('0232') },
+    ascii(0x9003, dateText),
+    { tag: 0xa002, type: TYPE_LONG, values: [fields.pixelWidth] },
+    { tag: 0xa003, type: TYPE_LONG, values: [fields.pixelHeight] },
+  ];
+  if (fields.userComment) {
+    // UserComment carries an 8 byte character code prefix; UNICODE means UTF-16 in the TIFF byte order
+    const plain = isPlainAscii(fields.userComment);
+    const comment = plain ? encoder.encode(fields.userComment) : utf16le(fields.userComment);
+    const values = new Uint8Array(8 + comment.length);
+    values.set(encoder.encode(plain ? 'ASCII\0\0\0' : 'UNICODE\0'));
+    values.set(comment, 8);
+    exifIfd.push({ tag: 0x9286, type: TYPE_UNDEFINED, values });
+  }
+  if (fields.lensModel) exifIfd.push(ascii(0xa434, fields.lensModel));
+
+  const ifd0Offset = 8;
+  const exifIfdOffset = ifd0Offset + ifdByteLength(ifd0);
+  ifd0[3].values = [exifIfdOffset];
+
+  const tiffLength = exifIfdOffset + ifdByteLength(exifIfd);
+  const segmentLength = 2 + 6 + tiffLength;
+  if (segmentLength > 0xffff) {
+    throw new Error('EXIF data too large');
+  }
+
+  // APP1 marker, length, "Exif\0\0", then the TIFF structure
+  const segment = new Uint8Array(2 + segmentLength);
+  const segView = new DataView(segment.buffer);
+  segView.setUint16(0, 0xffe1);
+  segView.setUint16(2, segmentLength);
+  segment.set(encoder.encode('Exif\0\0'), 4);
+
+  const tiff = segment.subarray(10);
+  const view = new DataView(segment.buffer, 10);
+  tiff.set([0x49, 0x49]); // "II" little endian
+  view.setUint16(2, 42, true);
+  view.setUint32(4, ifd0Offset, true);
+  writeIfd(view, tiff, ifd0Offset, ifd0);
+  writeIfd(view, tiff, exifIfdOffset, exifIfd);
+
+  return segment;
+};
+
+const isExifSegment = (bytes: Uint8Array, start: number) =>
+  bytes[start + 1] === 0xe1 &&
+  bytes[start + 4] === 0x45 && bytes[start + 5] === 0x78 && bytes[start + 6] === 0x69 && bytes[start + 7] === 0x66; // "Exif"
+
+// Copy a JPEG without its EXIF segments, optionally inserting a new one right after SOI
+const rewriteJpeg = async (jpeg: Blob, exifSegment: Uint8Array | null): Promise<Blob> => {
+  const bytes = new Uint8Array(await jpeg.arrayBuffer());
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    throw new Error('Not a JPEG');
+  }
+
+  const parts: BlobPart[] = [bytes.subarray(0, 2)];
+  if (exifSegment) parts.push(exifSegment);
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break; // Start of scan: compressed data follows
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (!isExifSegment(bytes, offset)) {
+      parts.push(bytes.subarray(offset, offset + 2 + length));
+    }
+    offset += 2 + length;
+  }
+  parts.push(bytes.subarray(offset));
+
+  return new Blob(parts, { type: 'image/jpeg' });
+};
+
+export const writeExif = (jpeg: Blob, fields: ExifFields): Promise<Blob> => rewriteJpeg(jpeg, buildExifSegment(fields));
+
+export const stripExif = (jpeg: Blob): Promise<Blob> => rewriteJpeg(jpeg, null);
@@ -0,0 +1,32 @@
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Share through the OS sheet when files are supported, otherwise fall back to downloads
+export const shareOrDownload = async (file: File | File[]) => {
+  const files = Array.isArray(file) ? file : [file];
+  try {
+    if (navigator.canShare && navigator.canShare({ files })) {
+      await navigator.share({ files });
+      return;
+    }
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'AbortError') return; // User dismissed the sheet
+    console.error("Share failed", e);
+  }
+  files.forEach(f => downloadBlob(f, f.name));
+};
+
+// 20261018-143005 style stamp for export file names
+export const formatFileTimestamp = (epochMs: number) => {
+  const d = new Date(epochMs);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+};
@@ -0,0 +1,95 @@
+export interface BufferedFrame {
+  time: number; // performance.now() when grabbed
+  bitmap: ImageBitmap;
+  isFull: boolean; // False once downscaled to save memory
+}
+
+export interface FrameBuffer {
+  take: () => BufferedFrame[]; // Oldest first; the caller owns (and must close) the bitmaps, and the buffer restarts empty
+  stop: () => void;
+}
+
+interface FrameBufferOptions {
+  windowMs: number;
+  fps: number;
+  maxBytes: number; // Decoded RGBA size of everything held
+  previewMaxEdge: number;
+}
+
+const bitmapBytes = (bitmap: ImageBitmap) => bitmap.width * bitmap.height * 4;
+
+// Keep grabbing frames from the video so the last `windowMs` is always at hand. When the full-resolution
+// frames outgrow `maxBytes` the oldest are downscaled first, and only dropped if that is still not enough.
+export const startFrameBuffer = (video: HTMLVideoElement, { windowMs, fps, maxBytes, previewMaxEdge }: FrameBufferOptions): FrameBuffer => {
+  let frames: BufferedFrame[] = [];
+  let isBusy = false;
+  let isStopped = false;
+
+  const totalBytes = () => frames.reduce((sum, frame) => sum + bitmapBytes(frame.bitmap), 0);
+
+  const dropOldest = () => frames.shift()?.bitmap.close();
+
+  const enforceLimits = async () => {
+    // 1. Age
+    const cutoff = performance.now() - windowMs;
+    while (frames.length > 0 && frames[0].time < cutoff) dropOldest();
+
+    // 2. Memory: downscale the oldest full frames
+    for (const frame of [...frames]) {
+      if (totalBytes() <= maxBytes) return;
+      const scale = previewMaxEdge / Math.max(frame.bitmap.width, frame.bitmap.height);
+      if (!frame.isFull || scale >= 1) continue;
+
+      const small = await createImageBitmap(frame.bitmap, {
+        resizeWidth: Math.round(frame.bitmap.width * scale),
+        resizeHeight: Math.round(frame.bitmap.height * scale),
+        resizeQuality: 'medium',
+      });
+      // Taken or stopped meanwhile: the full frame now belongs to someone else
+      if (isStopped || !frames.includes(frame)) {
+        small.close();
+        return;
+      }
+      frame.bitmap.close();
+      frame.bitmap = small;
+      frame.isFull = false;
+    }
+
+    // 3. Memory: still too much (e.g. a tiny budget), drop the oldest
+    while (frames.length > 1 && totalBytes() > maxBytes) dropOldest();
+  };
+
+  const grab = async () => {
+    if (isBusy || isStopped || video.readyState < 2 || !video.videoWidth) return;
+    isBusy = true;
+    try {
+      const bitmap = await createImageBitmap(video);
+      if (isStopped) {
+        bitmap.close();
+        return;
+      }
+      frames.push({ time: performance.now(), bitmap, isFull: true });
+      await enforceLimits();
+    } catch (e) {
+      console.warn('Frame buffer grab failed', e);
+    } finally {
+      isBusy = false;
+    }
+  };
+
+  const intervalId = window.setInterval(grab, 1000 / fps);
+
+  return {
+    take: () => {
+      const taken = frames;
+      frames = [];
+      return taken;
+    },
+    stop: () => {
+      isStopped = true;
+      clearInterval(intervalId);
+      frames.forEach(frame => frame.bitmap.close());
+      frames = [];
+    },
+  };
+};
@@ -0,0 +1,123 @@
+import { CaptureRecord } from '../types';
+import { EXIF_SOFTWARE } from '../constants';
+import { getCaptureBlob, resolveCapturePose } from './galleryStore';
+import { createZip, ZipEntry } from './zip';
+import { formatFileTimestamp } from './file';
+import { ExifFields, stripExif, writeExif } from './exif';
+import { getEditedSize, getGeometryEdits, isIdentityEdits, renderEditedBlob, renderEdits } from './photoEdits';
+import { renderCaptureGuide } from './compositing';
+import { canvasToBlob } from './image';
+
+export interface ExportOptions {
+  stripMetadata: boolean;
+  burnInGuide: boolean; // Composite the guide pose onto the exported photo
+  includeGuideLayer: boolean; // Also export the guide alone as a transparent PNG
+}
+
+const fileExtension = (record: CaptureRecord) =>
+  record.kind === 'video' ? (record.mimeType === 'video/mp4' ? 'mp4' : 'webm') : 'jpg';
+
+export const captureFileName = (record: CaptureRecord, index: number) =>
+  `pose-capture-${formatFileTimestamp(record.createdAt)}-${String(index + 1).padStart(3, '0')}.${fileExtension(record)}`;
+
+export const guideLayerFileName = (record: CaptureRecord, index: number) =>
+  captureFileName(record, index).replace(/\.\w+$/, '-guide.png');
+
+const hasGuide = (record: CaptureRecord) => !!record.pose && !!record.poseTransform;
+
+// The guide layer at full photo size, with the photo's crop / rotate / flip applied so the two stay aligned
+const renderExportGuide = async (record: CaptureRecord): Promise<HTMLCanvasElement | null> => {
+  const pose = hasGuide(record) ? await resolveCapturePose(record) : undefined;
+  if (!pose) return null;
+
+  const guide = await renderCaptureGuide(record, pose);
+  if (isIdentityEdits(record.edits)) return guide;
+
+  const aligned = document.createElement('canvas');
+  renderEdits(guide, getGeometryEdits(record.edits!), aligned);
+  return aligned;
+};
+
+const burnInGuide = async (photo: Blob, guide: HTMLCanvasElement): Promise<Blob> => {
+  const bitmap = await createImageBitmap(photo);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  ctx.drawImage(bitmap, 0, 0);
+  ctx.drawImage(guide, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvasToBlob(canvas, 'image/jpeg', 0.92);
+};
+
+const buildExifFields = (record: CaptureRecord, width: number, height: number): ExifFields => ({
+  dateTimeOriginal: new Date(record.createdAt),
+  orientation: 1,
+  software: EXIF_SOFTWARE,
+  imageDescription: record.pose?.name,
+  userComment: JSON.stringify({
+    pose: record.pose?.id ?? null,
+    transform: record.poseTransform,
+    zoom: record.zoomLevel,
+    facingMode: record.facingMode,
+  }),
+  lensModel: record.cameraLabel || (record.facingMode === 'user' ? 'Front camera' : 'Back camera'),
+  pixelWidth: width,
+  pixelHeight: height,
+});
+
+// The JPEG exactly as it leaves the app: edits rendered at full resolution, the guide burned in when
+// requested, then tagged with EXIF or scrubbed when the user opted out. Videos leave as recorded.
+export const prepareCaptureForExport = async (record: CaptureRecord, options: ExportOptions): Promise<Blob> => {
+  const original = await getCaptureBlob(record.id);
+  if (!original) throw new Error(`Missing capture ${record.id}`);
+  if (record.kind === 'video') return original;
+
+  const hasEdits = !isIdentityEdits(record.edits);
+  let blob = hasEdits ? await renderEditedBlob(original, record.edits!) : original;
+  const size = hasEdits ? getEditedSize(record.width, record.height, record.edits!) : record;
+
+  if (options.burnInGuide) {
+    const guide = await renderExportGuide(record);
+    if (guide) blob = await burnInGuide(blob, guide);
+  }
+
+  return options.stripMetadata ? stripExif(blob) : writeExif(blob, buildExifFields(record, size.width, size.height));
+};
+
+// The guide pose alone on a transparent PNG matching the exported photo, or null for captures without one
+export const prepareGuideLayerForExport = async (record: CaptureRecord): Promise<Blob | null> => {
+  if (record.kind === 'video') return null; // Either burned in while recording or never shown
+  const guide = await renderExportGuide(record);
+  return guide ? canvasToBlob(guide, 'image/png') : null;
+};
+
+// Bundle captures plus a manifest.json of their metadata into a single ZIP
+export const exportCapturesZip = async (records: CaptureRecord[], options: ExportOptions): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const manifest: (CaptureRecord & { file: string; guideLayer?: string })[] = [];
+
+  for (const [index, record] of records.entries()) {
+    const file = captureFileName(record, index);
+    entries.push({ name: file, data: await prepareCaptureForExport(record, options), lastModified: record.createdAt });
+
+    const guideLayer = options.includeGuideLayer ? await prepareGuideLayerForExport(record) : null;
+    const guideFile = guideLayer ? guideLayerFileName(record, index) : undefined;
+    if (guideLayer && guideFile) {
+      entries.push({ name: guideFile, data: guideLayer, lastModified: record.createdAt });
+    }
+    manifest.push({ file, ...(guideFile ? { guideLayer: guideFile } : {}), ...record });
+  }
+
+  const manifestJson = JSON.stringify({
+    format: 'bf-camera-export',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    captures: options.stripMetadata ? manifest.map(({ file }) => ({ file })) : manifest,
+  }, null, 2);
+  entries.push({ name: 'manifest.json', data: new Blob([manifestJson], { type: 'application/json' }) });
+
+  return createZip(entries);
+};
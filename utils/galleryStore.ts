@@ -0,0 +1,338 @@
+import { CaptureRecord, CaptureMetadata, CaptureSession, Pose, PhotoEdits } from '../types';
+import { GALLERY_QUOTA_BYTES, THUMBNAIL_MAX_EDGE, POSES } from '../constants';
+import { STORES, StorageFullError, openDatabase, requestToPromise, transactionDone, ensureStorageHeadroom } from './db';
+import { createThumbnail } from './image';
+import { createSession, splitByInactivity } from './sessions';
+import { renderEditedBlob } from './photoEdits';
+
+// Captures are split across three stores so listing the gallery never touches image data:
+// photoMeta holds the records, photoBlobs the full JPEGs and photoThumbs the small previews.
+// capturePoses keeps a copy of every pose used as a guide, so AI poses survive for comparison.
+// sessions holds the named groups each record points at through sessionId.
+// Videos keep the clip in photoBlobs and a full-size first frame in videoPosters.
+// momentFrames holds the pre-shutter frames of a moment capture in time order, with a null in the slot
+// of the frame currently living in photoBlobs.
+
+const createCaptureId = () => `capture-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Records written before capture metadata existed get neutral defaults
+const normalizeRecord = (record: CaptureRecord): CaptureRecord => ({
+  kind: 'photo',
+  facingMode: 'environment',
+  zoomLevel: 1,
+  pose: null,
+  poseTransform: null,
+  torchFired: false,
+  sourceWidth: record.width,
+  sourceHeight: record.height,
+  viewportWidth: window.innerWidth,
+  viewportHeight: window.innerHeight,
+  previewFit: 'cover',
+  captureRect: { x: 0, y: 0, width: record.sourceWidth ?? record.width, height: record.sourceHeight ?? record.height },
+  ...record,
+});
+
+export const listCaptures = async (): Promise<CaptureRecord[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.photoMeta, 'readonly');
+  const records = await requestToPromise<CaptureRecord[]>(tx.objectStore(STORES.photoMeta).getAll());
+  return records.map(normalizeRecord).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const listSessions = async (): Promise<CaptureSession[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.sessions, 'readonly');
+  const sessions = await requestToPromise<CaptureSession[]>(tx.objectStore(STORES.sessions).getAll());
+  return sessions.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Load captures and sessions, assigning sessions to captures saved before sessions existed
+export const loadGallery = async (): Promise<{ captures: CaptureRecord[]; sessions: CaptureSession[] }> => {
+  const [captures, sessions] = await Promise.all([listCaptures(), listSessions()]);
+  const legacy = captures.filter(r => !r.sessionId);
+  if (legacy.length === 0) return { captures, sessions };
+
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.photoMeta, STORES.sessions], 'readwrite');
+  for (const group of splitByInactivity(legacy)) {
+    const session = createSession(group[0].createdAt);
+    tx.objectStore(STORES.sessions).put(session);
+    sessions.push(session);
+    group.forEach(record => {
+      record.sessionId = session.id;
+      tx.objectStore(STORES.photoMeta).put(record);
+    });
+  }
+  await transactionDone(tx);
+
+  return { captures, sessions: sessions.sort((a, b) => a.createdAt - b.createdAt) };
+};
+
+export const saveSession = async (session: CaptureSession): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.sessions, 'readwrite');
+  tx.objectStore(STORES.sessions).put(session);
+  await transactionDone(tx);
+};
+
+// Move every capture of `sourceId` into `targetId`, then drop the source session
+export const mergeSessions = async (sourceId: string, targetId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.photoMeta, STORES.sessions], 'readwrite');
+  const meta = tx.objectStore(STORES.photoMeta);
+  const records = await requestToPromise<CaptureRecord[]>(meta.getAll());
+  records
+    .filter(r => r.sessionId === sourceId)
+    .forEach(r => meta.put({ ...r, sessionId: targetId }));
+  tx.objectStore(STORES.sessions).delete(sourceId);
+  await transactionDone(tx);
+};
+
+// Drop pose snapshots no remaining capture points at; runs inside a deleting transaction, after its deletes
+const pruneCapturePoses = async (tx: IDBTransaction) => {
+  const records = await requestToPromise<CaptureRecord[]>(tx.objectStore(STORES.photoMeta).getAll());
+  const poseIds = await requestToPromise<IDBValidKey[]>(tx.objectStore(STORES.capturePoses).getAllKeys());
+  const inUse = new Set(records.map(r => r.pose?.id));
+  poseIds
+    .filter(id => !inUse.has(id as string))
+    .forEach(id => tx.objectStore(STORES.capturePoses).delete(id));
+};
+
+// Delete a session together with all of its captures
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(
+    [STORES.photoMeta, STORES.photoBlobs, STORES.photoThumbs, STORES.capturePoses, STORES.videoPosters, STORES.momentFrames, STORES.sessions],
+    'readwrite'
+  );
+  const records = await requestToPromise<CaptureRecord[]>(tx.objectStore(STORES.photoMeta).getAll());
+  records
+    .filter(r => r.sessionId === sessionId)
+    .forEach(r => {
+      tx.objectStore(STORES.photoMeta).delete(r.id);
+      tx.objectStore(STORES.photoBlobs).delete(r.id);
+      tx.objectStore(STORES.photoThumbs).delete(r.id);
+      tx.objectStore(STORES.videoPosters).delete(r.id);
+      tx.objectStore(STORES.momentFrames).delete(r.id);
+    });
+  tx.objectStore(STORES.sessions).delete(sessionId);
+  await pruneCapturePoses(tx);
+  await transactionDone(tx);
+};
+
+export const getGalleryUsage = async (): Promise<number> => {
+  const records = await listCaptures();
+  return records.reduce((total, record) => total + record.byteSize, 0);
+};
+
+// Enforce the app's own gallery budget, then the browser quota
+const reserveSpace = async (bytes: number) => {
+  if ((await getGalleryUsage()) + bytes > GALLERY_QUOTA_BYTES) {
+    throw new StorageFullError('Gallery quota exceeded');
+  }
+  await ensureStorageHeadroom(bytes);
+};
+
+// Write all parts of a capture atomically
+const writeCapture = async (
+  record: CaptureRecord,
+  blob: Blob,
+  thumbnail: Blob,
+  { guidePose, poster, moment }: { guidePose?: Pose | null; poster?: Blob; moment?: (Blob | null)[] }
+) => {
+  const db = await openDatabase();
+  const tx = db.transaction(
+    [STORES.photoMeta, STORES.photoBlobs, STORES.photoThumbs, STORES.capturePoses, STORES.videoPosters, STORES.momentFrames],
+    'readwrite'
+  );
+  tx.objectStore(STORES.photoMeta).put(record);
+  tx.objectStore(STORES.photoBlobs).put(blob, record.id);
+  tx.objectStore(STORES.photoThumbs).put(thumbnail, record.id);
+  if (poster) {
+    tx.objectStore(STORES.videoPosters).put(poster, record.id);
+  }
+  if (moment) {
+    tx.objectStore(STORES.momentFrames).put(moment, record.id);
+  }
+  if (guidePose) {
+    tx.objectStore(STORES.capturePoses).put(guidePose);
+  }
+  await transactionDone(tx);
+};
+
+// `momentFrames` are the frames buffered before this one, oldest first
+export const saveCapture = async (
+  blob: Blob,
+  sessionId: string,
+  metadata: CaptureMetadata,
+  guidePose?: Pose | null,
+  momentFrames: Blob[] = []
+): Promise<CaptureRecord> => {
+  const thumbnail = await createThumbnail(blob, THUMBNAIL_MAX_EDGE);
+  const bytes = blob.size + thumbnail.size + momentFrames.reduce((sum, frame) => sum + frame.size, 0);
+
+  // 1. Check space
+  await reserveSpace(bytes);
+
+  // 2. Read dimensions for the record
+  const bitmap = await createImageBitmap(blob);
+  const record: CaptureRecord = {
+    ...metadata,
+    id: createCaptureId(),
+    sessionId,
+    kind: 'photo',
+    createdAt: Date.now(),
+    byteSize: bytes,
+    width: bitmap.width,
+    height: bitmap.height,
+    ...(momentFrames.length > 0 ? { momentFrames: momentFrames.length + 1, momentIndex: momentFrames.length } : {}),
+  };
+  bitmap.close();
+
+  // 3. Persist
+  await writeCapture(record, blob, thumbnail, {
+    guidePose,
+    moment: momentFrames.length > 0 ? [...momentFrames, null] : undefined,
+  });
+  return record;
+};
+
+// Videos are sized by their poster frame, which also provides the gallery thumbnail
+export const saveVideoCapture = async (
+  clip: Blob,
+  poster: Blob,
+  sessionId: string,
+  metadata: CaptureMetadata,
+  video: { durationMs: number; mimeType: string },
+  guidePose?: Pose | null
+): Promise<CaptureRecord> => {
+  const thumbnail = await createThumbnail(poster, THUMBNAIL_MAX_EDGE);
+  const bytes = clip.size + poster.size + thumbnail.size;
+  await reserveSpace(bytes);
+
+  const bitmap = await createImageBitmap(poster);
+  const record: CaptureRecord = {
+    ...metadata,
+    id: createCaptureId(),
+    sessionId,
+    kind: 'video',
+    createdAt: Date.now(),
+    byteSize: bytes,
+    width: bitmap.width,
+    height: bitmap.height,
+    durationMs: video.durationMs,
+    mimeType: video.mimeType,
+  };
+  bitmap.close();
+
+  await writeCapture(record, clip, thumbnail, { guidePose, poster });
+  return record;
+};
+
+export const getCaptureBlob = async (id: string): Promise<Blob | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.photoBlobs, 'readonly');
+  return requestToPromise<Blob | undefined>(tx.objectStore(STORES.photoBlobs).get(id));
+};
+
+export const getCapturePoster = async (id: string): Promise<Blob | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.videoPosters, 'readonly');
+  return requestToPromise<Blob | undefined>(tx.objectStore(STORES.videoPosters).get(id));
+};
+
+export const getMomentFrames = async (id: string): Promise<(Blob | null)[] | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.momentFrames, 'readonly');
+  return requestToPromise<(Blob | null)[] | undefined>(tx.objectStore(STORES.momentFrames).get(id));
+};
+
+// Make another frame of a moment the photo. The previous photo moves back into its slot, and the edits
+// carry over since they do not depend on resolution.
+export const selectMomentFrame = async (record: CaptureRecord, index: number): Promise<CaptureRecord> => {
+  const [frames, current] = await Promise.all([getMomentFrames(record.id), getCaptureBlob(record.id)]);
+  const chosen = frames?.[index];
+  if (!frames || !current || !chosen || record.momentIndex === undefined) throw new Error(`Missing moment frame ${record.id}#${index}`);
+
+  const nextFrames = frames.map((frame, i) => i === index ? null : i === record.momentIndex ? current : frame);
+  const thumbnail = record.edits
+    ? await renderEditedBlob(chosen, record.edits, THUMBNAIL_MAX_EDGE)
+    : await createThumbnail(chosen, THUMBNAIL_MAX_EDGE);
+  const bitmap = await createImageBitmap(chosen);
+  const updated: CaptureRecord = {
+    ...record,
+    momentIndex: index,
+    width: bitmap.width, // Older buffered frames may have been downscaled
+    height: bitmap.height,
+    byteSize: chosen.size + thumbnail.size + nextFrames.reduce((sum, frame) => sum + (frame?.size ?? 0), 0),
+  };
+  bitmap.close();
+
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.photoMeta, STORES.photoBlobs, STORES.photoThumbs, STORES.momentFrames], 'readwrite');
+  tx.objectStore(STORES.photoMeta).put(updated);
+  tx.objectStore(STORES.photoBlobs).put(chosen, record.id);
+  tx.objectStore(STORES.photoThumbs).put(thumbnail, record.id);
+  tx.objectStore(STORES.momentFrames).put(nextFrames, record.id);
+  await transactionDone(tx);
+
+  return updated;
+};
+
+export const getCaptureThumbnail = async (id: string): Promise<Blob | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.photoThumbs, 'readonly');
+  return requestToPromise<Blob | undefined>(tx.objectStore(STORES.photoThumbs).get(id));
+};
+
+// Store new edit parameters (or null to revert) and refresh the thumbnail; the original blob is never touched
+export const updateCaptureEdits = async (record: CaptureRecord, edits: PhotoEdits | null): Promise<CaptureRecord> => {
+  const original = await getCaptureBlob(record.id);
+  if (!original) throw new Error(`Missing capture ${record.id}`);
+
+  const thumbnail = edits
+    ? await renderEditedBlob(original, edits, THUMBNAIL_MAX_EDGE)
+    : await createThumbnail(original, THUMBNAIL_MAX_EDGE);
+  const { edits: _previous, ...rest } = record;
+  const updated: CaptureRecord = edits ? { ...rest, edits } : rest;
+
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.photoMeta, STORES.photoThumbs], 'readwrite');
+  tx.objectStore(STORES.photoMeta).put(updated);
+  tx.objectStore(STORES.photoThumbs).put(thumbnail, record.id);
+  await transactionDone(tx);
+
+  return updated;
+};
+
+export const getCapturePose = async (poseId: string): Promise<Pose | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.capturePoses, 'readonly');
+  return requestToPromise<Pose | undefined>(tx.objectStore(STORES.capturePoses).get(poseId));
+};
+
+// The pose a capture was framed against: its stored snapshot, or the built-in pose for records that predate snapshots
+export const resolveCapturePose = async (record: CaptureRecord): Promise<Pose | undefined> => {
+  if (!record.pose) return undefined;
+  const poseId = record.pose.id;
+  return (await getCapturePose(poseId)) ?? POSES.find(p => p.id === poseId);
+};
+
+export const deleteCaptures = async (ids: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(
+    [STORES.photoMeta, STORES.photoBlobs, STORES.photoThumbs, STORES.capturePoses, STORES.videoPosters, STORES.momentFrames],
+    'readwrite'
+  );
+  for (const id of ids) {
+    tx.objectStore(STORES.photoMeta).delete(id);
+    tx.objectStore(STORES.photoBlobs).delete(id);
+    tx.objectStore(STORES.photoThumbs).delete(id);
+    tx.objectStore(STORES.videoPosters).delete(id);
+    tx.objectStore(STORES.momentFrames).delete(id);
+  }
+  await pruneCapturePoses(tx);
+  await transactionDone(tx);
+};
+
+export const deleteCapture = (id: string): Promise<void> => deleteCaptures([id]);
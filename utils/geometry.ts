@@ -1,14 +1,17 @@
 import { TouchState } from '../types';
 
-export const getDistance = (p1: TouchState, p2: TouchState): number => {
+// Touches or any other points in the same units
+type Point = Pick<TouchState, 'x' | 'y'>;
+
+export const getDistance = (p1: Point, p2: Point): number => {
   return Math.hypot(p2.x - p1.x, p2.y - p1.y);
 };
 
-export const getAngle = (p1: TouchState, p2: TouchState): number => {
+export const getAngle = (p1: Point, p2: Point): number => {
   return (Math.atan2(p2.y - p1.y, p2.x - p1.x) * 180) / Math.PI;
 };
 
-export const getMidpoint = (p1: TouchState, p2: TouchState): { x: number; y: number } => {
+export const getMidpoint = (p1: Point, p2: Point): { x: number; y: number } => {
   return {
     x: (p1.x + p2.x) / 2,
     y: (p1.y + p2.y) / 2,
@@ -0,0 +1,109 @@
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/jpeg', quality = 0.9): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Could not encode canvas'));
+      }
+    }, type, quality);
+  });
+};
+
+// Downscale an image blob so its longest edge is at most `maxEdge`
+export const createThumbnail = async (blob: Blob, maxEdge: number): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob);
+  const ratio = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * ratio);
+  canvas.height = Math.round(bitmap.height * ratio);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Could not get canvas context');
+  }
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return canvasToBlob(canvas, 'image/jpeg', 0.7);
+};
+
+// Bounding box of an image's visible pixels as fractions of its size, scanned on a small copy.
+// Returns null when nothing is visible.
+export const getOpaqueBounds = (image: HTMLImageElement, alphaThreshold = 16, scanEdge = 96) => {
+  const ratio = Math.min(1, scanEdge / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * ratio));
+  const height = Math.max(1, Math.round(image.naturalHeight * ratio));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(image, 0, 0, width, height);
+  const data = ctx.getImageData(0, 0, width, height).data;
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > alphaThreshold) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null;
+
+  return { x: minX / width, y: minY / height, width: (maxX - minX + 1) / width, height: (maxY - minY + 1) / height };
+};
+
+// Helper to convert black-background images to transparent white overlays. Pixels the source already
+// made transparent stay transparent, and `maxEdge` caps the output size.
+export const processImageForTransparency = (base64Data: string, maxEdge = Infinity): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => {
+      const ratio = Math.min(1, maxEdge / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * ratio);
+      canvas.height = Math.round(img.height * ratio);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const data = imageData.data;
+
+      // Loop through pixels
+      for (let i = 0; i < data.length; i += 4) {
+        const r = data[i];
+        const g = data[i + 1];
+        const b = data[i + 2];
+
+        // Calculate brightness (Luma)
+        const brightness = (r + g + b) / 3;
+
+        // Convert to White with Alpha based on brightness
+        data[i] = 255;     // R
+        data[i + 1] = 255; // G
+        data[i + 2] = 255; // B
+
+        // Any brightness below 20 becomes 0 alpha
+        const alpha = brightness < 20 ? 0 : brightness;
+        data[i + 3] = Math.round(alpha * data[i + 3] / 255);
+      }
+
+      ctx.putImageData(imageData, 0, 0);
+      resolve(canvas.toDataURL('image/png')); // Must be PNG for transparency
+    };
+    img.onerror = (e) => reject(e);
+    img.src = `data:image/png;base64,${base64Data}`;
+  });
+};
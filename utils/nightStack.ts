@@ -0,0 +1,168 @@
+// CPU frame stacking for low light: each frame is aligned to the first by a whole-pixel translation,
+// then all of them are averaged. Noise drops by roughly the square root of the frame count.
+
+const ALIGN_EDGE = 480; // Fine alignment runs on a luma copy this size
+const COARSE_FACTOR = 4; // Coarse search runs at 1/4 of that
+const COARSE_RADIUS = 6; // Coarse search range, in coarse pixels
+const FINE_RADIUS = 3; // Refinement range around the scaled-up coarse shift, in fine pixels
+
+interface LumaImage {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+// Box-averaged luma at 1/factor size
+const downsampleLuma = (rgba: Uint8ClampedArray, width: number, height: number, factor: number): LumaImage => {
+  const w = Math.max(1, Math.floor(width / factor));
+  const h = Math.max(1, Math.floor(height / factor));
+  const data = new Float32Array(w * h);
+  const step = Math.max(1, Math.floor(factor / 2)); // Sample a sparse grid inside each box; plenty for alignment
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let sy = Math.floor(y * factor); sy < Math.min(height, Math.floor((y + 1) * factor)); sy += step) {
+        for (let sx = Math.floor(x * factor); sx < Math.min(width, Math.floor((x + 1) * factor)); sx += step) {
+          const i = (sy * width + sx) * 4;
+          sum += 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+          count++;
+        }
+      }
+      data[y * w + x] = count > 0 ? sum / count : 0;
+    }
+  }
+  return { data, width: w, height: h };
+};
+
+const shrink = (image: LumaImage, factor: number): LumaImage => {
+  const w = Math.max(1, Math.floor(image.width / factor));
+  const h = Math.max(1, Math.floor(image.height / factor));
+  const data = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let sum = 0;
+      for (let sy = 0; sy < factor; sy++) {
+        for (let sx = 0; sx < factor; sx++) {
+          sum += image.data[(y * factor + sy) * image.width + x * factor + sx];
+        }
+      }
+      data[y * w + x] = sum / (factor * factor);
+    }
+  }
+  return { data, width: w, height: h };
+};
+
+// Mean absolute difference between ref(x, y) and frame(x + dx, y + dy) over their overlap
+const alignmentError = (ref: LumaImage, frame: LumaImage, dx: number, dy: number): number => {
+  let sum = 0;
+  let count = 0;
+  const x0 = Math.max(0, -dx);
+  const x1 = Math.min(ref.width, frame.width - dx);
+  const y0 = Math.max(0, -dy);
+  const y1 = Math.min(ref.height, frame.height - dy);
+  for (let y = y0; y < y1; y++) {
+    const refRow = y * ref.width;
+    const frameRow = (y + dy) * frame.width + dx;
+    for (let x = x0; x < x1; x++) {
+      sum += Math.abs(ref.data[refRow + x] - frame.data[frameRow + x]);
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : Infinity;
+};
+
+const searchShift = (ref: LumaImage, frame: LumaImage, cx: number, cy: number, radius: number) => {
+  let best = { dx: cx, dy: cy, error: Infinity };
+  for (let dy = cy - radius; dy <= cy + radius; dy++) {
+    for (let dx = cx - radius; dx <= cx + radius; dx++) {
+      const error = alignmentError(ref, frame, dx, dy);
+      if (error < best.error) best = { dx, dy, error };
+    }
+  }
+  return best;
+};
+
+export interface FrameStacker {
+  add: (frame: ImageData) => { dx: number; dy: number }; // Shift applied to this frame, in pixels
+  result: () => ImageData;
+  frameCount: () => number;
+}
+
+// Accumulates same-sized frames; the first one added is the alignment reference
+export const createFrameStacker = (width: number, height: number): FrameStacker => {
+  const alignScale = Math.max(1, Math.max(width, height) / ALIGN_EDGE);
+  const sums = new Uint16Array(width * height * 3); // 255 × 257 frames still fits
+  const counts = new Uint8Array(width * height);
+  let reference: { fine: LumaImage; coarse: LumaImage } | null = null;
+  let frames = 0;
+
+  const accumulate = (rgba: Uint8ClampedArray, dx: number, dy: number) => {
+    const x0 = Math.max(0, -dx);
+    const x1 = Math.min(width, width - dx);
+    const y0 = Math.max(0, -dy);
+    const y1 = Math.min(height, height - dy);
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const out = y * width + x;
+        const src = ((y + dy) * width + x + dx) * 4;
+        sums[out * 3] += rgba[src];
+        sums[out * 3 + 1] += rgba[src + 1];
+        sums[out * 3 + 2] += rgba[src + 2];
+        counts[out]++;
+      }
+    }
+  };
+
+  return {
+    add: (frame) => {
+      if (frame.width !== width || frame.height !== height) throw new Error('Stacked frames must share one size');
+      const fine = downsampleLuma(frame.data, width, height, alignScale);
+      const coarse = shrink(fine, COARSE_FACTOR);
+      frames++;
+
+      if (!reference) {
+        reference = { fine, coarse };
+        accumulate(frame.data, 0, 0);
+        return { dx: 0, dy: 0 };
+      }
+
+      // Coarse-to-fine: a wide search on the small image, then a narrow one around it at alignment size
+      const rough = searchShift(reference.coarse, coarse, 0, 0, COARSE_RADIUS);
+      const refined = searchShift(reference.fine, fine, rough.dx * COARSE_FACTOR, rough.dy * COARSE_FACTOR, FINE_RADIUS);
+      const dx = Math.round(refined.dx * alignScale);
+      const dy = Math.round(refined.dy * alignScale);
+      accumulate(frame.data, dx, dy);
+      return { dx, dy };
+    },
+    result: () => {
+      const output = new ImageData(width, height);
+      for (let i = 0; i < width * height; i++) {
+        const count = counts[i] || 1;
+        output.data[i * 4] = sums[i * 3] / count;
+        output.data[i * 4 + 1] = sums[i * 3 + 1] / count;
+        output.data[i * 4 + 2] = sums[i * 3 + 2] / count;
+        output.data[i * 4 + 3] = 255;
+      }
+      return output;
+    },
+    frameCount: () => frames,
+  };
+};
+
+// Average luma (0-255) of a frame, measured on a tiny copy
+export const measureLuma = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number): number => {
+  const canvas = document.createElement('canvas');
+  const scale = 64 / Math.max(sourceWidth, sourceHeight);
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return 255;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    sum += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return sum / (data.length / 4);
+};
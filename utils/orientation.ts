@@ -0,0 +1,38 @@
+// iOS 13+ only delivers deviceorientation events after a permission prompt triggered by a user gesture
+export const needsOrientationPermission = (): boolean =>
+  typeof DeviceOrientationEvent !== 'undefined' && typeof (DeviceOrientationEvent as any).requestPermission === 'function';
+
+export const requestOrientationPermission = async (): Promise<boolean> => {
+  if (typeof DeviceOrientationEvent === 'undefined') return false;
+  if (!needsOrientationPermission()) return true;
+
+  try {
+    return (await (DeviceOrientationEvent as any).requestPermission()) === 'granted';
+  } catch (e) {
+    console.warn("Orientation permission request failed", e);
+    return false;
+  }
+};
+
+const toRadians = (deg: number) => deg * Math.PI / 180;
+const toDegrees = (rad: number) => rad * 180 / Math.PI;
+
+// Horizon roll (rotation in the screen plane) and pitch (tilt towards / away from the scene) in degrees,
+// from the gravity vector implied by the device's beta / gamma angles.
+// Roll is corrected for the current screen rotation so it always describes the viewfinder.
+export const getHorizonAngles = (beta: number, gamma: number, screenAngle = 0) => {
+  const b = toRadians(beta);
+  const g = toRadians(gamma);
+  const gravityX = Math.cos(b) * Math.sin(g);
+  const gravityY = -Math.sin(b);
+  const gravityZ = -Math.cos(b) * Math.cos(g);
+
+  let roll = toDegrees(Math.atan2(gravityX, -gravityY)) - screenAngle;
+  roll = ((roll + 540) % 360) - 180;
+
+  return {
+    roll,
+    pitch: toDegrees(Math.asin(Math.max(-1, Math.min(1, gravityZ)))),
+    isFlat: Math.abs(gravityZ) > 0.9, // Pointing at the floor or sky: roll is meaningless
+  };
+};
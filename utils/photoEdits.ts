@@ -0,0 +1,132 @@
+import { PhotoEdits } from '../types';
+import { CROP_ASPECTS, DEFAULT_EDITS } from '../constants';
+import { canvasToBlob } from './image';
+
+type ImageSource = CanvasImageSource & { width: number; height: number };
+
+export const isIdentityEdits = (edits?: PhotoEdits | null): boolean => {
+  if (!edits) return true;
+  return (Object.keys(DEFAULT_EDITS) as (keyof PhotoEdits)[]).every(key => edits[key] === DEFAULT_EDITS[key]);
+};
+
+// Output frame for a source of the given size: quarter turns swap the axes, then the crop trims to aspect
+export const getEditedSize = (width: number, height: number, edits: PhotoEdits) => {
+  const turned = edits.quarterTurns % 2 === 1;
+  const baseW = turned ? height : width;
+  const baseH = turned ? width : height;
+  const ratio = CROP_ASPECTS.find(a => a.id === edits.crop)?.ratio ?? baseW / baseH;
+
+  return baseW / baseH > ratio
+    ? { width: Math.round(baseH * ratio), height: baseH, baseW, baseH }
+    : { width: baseW, height: Math.round(baseW / ratio), baseW, baseH };
+};
+
+// Only the crop / rotate / flip part of the edits, for layers that must line up with the edited photo
+export const getGeometryEdits = (edits: PhotoEdits): PhotoEdits => ({
+  ...DEFAULT_EDITS,
+  crop: edits.crop,
+  quarterTurns: edits.quarterTurns,
+  straighten: edits.straighten,
+  flipH: edits.flipH,
+  flipV: edits.flipV,
+});
+
+// Zoom needed so the straightened image still covers the whole crop frame (no empty corners)
+const getStraightenZoom = (cropW: number, cropH: number, baseW: number, baseH: number, degrees: number) => {
+  const rad = Math.abs(degrees) * Math.PI / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return Math.max(1, (cropW * cos + cropH * sin) / baseW, (cropW * sin + cropH * cos) / baseH);
+};
+
+const clampByte = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+// Tone adjustments on raw pixels: exposure and contrast through a lookup table, then saturation and warmth
+const applyTone = (ctx: CanvasRenderingContext2D, edits: PhotoEdits) => {
+  if (!edits.exposure && !edits.contrast && !edits.saturation && !edits.warmth) return;
+
+  const { width, height } = ctx.canvas;
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const data = imageData.data;
+
+  const gain = Math.pow(2, edits.exposure);
+  const contrast = 1 + edits.contrast * 0.8;
+  const lut = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) {
+    lut[i] = (i * gain - 128) * contrast + 128;
+  }
+
+  const saturation = 1 + edits.saturation;
+  const warmShift = edits.warmth * 25;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = lut[data[i]];
+    let g = lut[data[i + 1]];
+    let b = lut[data[i + 2]];
+
+    if (saturation !== 1) {
+      const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+      r = luma + (r - luma) * saturation;
+      g = luma + (g - luma) * saturation;
+      b = luma + (b - luma) * saturation;
+    }
+
+    data[i] = clampByte(r + warmShift);
+    data[i + 1] = clampByte(g);
+    data[i + 2] = clampByte(b - warmShift);
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+};
+
+const applyVignette = (ctx: CanvasRenderingContext2D, strength: number) => {
+  if (strength <= 0) return;
+
+  const { width, height } = ctx.canvas;
+  const radius = Math.hypot(width, height) / 2;
+  const gradient = ctx.createRadialGradient(width / 2, height / 2, radius * 0.4, width / 2, height / 2, radius);
+  gradient.addColorStop(0, 'rgba(0,0,0,0)');
+  gradient.addColorStop(1, `rgba(0,0,0,${0.85 * strength})`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+};
+
+// Draw `source` with edits applied into `target`, scaled down so its longest edge is at most `maxEdge`
+export const renderEdits = (source: ImageSource, edits: PhotoEdits, target: HTMLCanvasElement, maxEdge = Infinity) => {
+  const size = getEditedSize(source.width, source.height, edits);
+  const outputScale = Math.min(1, maxEdge / Math.max(size.width, size.height));
+
+  target.width = Math.round(size.width * outputScale);
+  target.height = Math.round(size.height * outputScale);
+  const ctx = target.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  // 1. Geometry: flip in output space, then rotate, then zoom to hide straighten corners
+  const zoom = getStraightenZoom(size.width, size.height, size.baseW, size.baseH, edits.straighten) * outputScale;
+  const mirrored = edits.flipH !== edits.flipV;
+  const angle = (edits.quarterTurns * 90 + edits.straighten) * (mirrored ? -1 : 1); // Keep turns clockwise on screen
+
+  ctx.save();
+  ctx.translate(target.width / 2, target.height / 2);
+  ctx.scale(edits.flipH ? -1 : 1, edits.flipV ? -1 : 1);
+  ctx.rotate(angle * Math.PI / 180);
+  ctx.scale(zoom, zoom);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  ctx.restore();
+
+  // 2. Tone and vignette
+  applyTone(ctx, edits);
+  applyVignette(ctx, edits.vignette);
+};
+
+export const renderEditedBlob = async (original: Blob, edits: PhotoEdits, maxEdge = Infinity): Promise<Blob> => {
+  const bitmap = await createImageBitmap(original);
+  const canvas = document.createElement('canvas');
+  try {
+    renderEdits(bitmap, edits, canvas, maxEdge);
+  } finally {
+    bitmap.close();
+  }
+  return canvasToBlob(canvas, 'image/jpeg', 0.92);
+};
@@ -0,0 +1,130 @@
+import { Pose } from '../types';
+import { POSE_IMPORT_MAX_BYTES, POSE_IMAGE_MAX_EDGE } from '../constants';
+import { processImageForTransparency } from './image';
+
+// Turns user artwork into library poses. SVGs are reduced to a single path plus viewBox, so nothing
+// from the file (scripts, styles, external references) is ever rendered; PNGs become white-on-transparent overlays.
+
+// What the library's import picker offers; .posepack files are read by posePack.ts
+export const POSE_IMPORT_ACCEPT = '.svg,.png,.posepack,image/svg+xml,image/png';
+
+export class PoseImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PoseImportError';
+  }
+}
+
+const PATH_DATA_PATTERN = /^[MmZzLlHhVvCcSsQqTtAaEe0-9.,\s+-]+$/;
+
+// Path commands and numbers only, so the data can't smuggle anything else into the SVG it's drawn in
+export const isSafePathData = (d: string) => PATH_DATA_PATTERN.test(d);
+
+const NON_RENDERED = 'defs, clipPath, mask, symbol, pattern, marker';
+const SHAPES = 'path, rect, circle, ellipse, line, polyline, polygon';
+
+const isSvgFile = (file: File) => file.type === 'image/svg+xml' || /\.svg$/i.test(file.name);
+const isPngFile = (file: File) => file.type === 'image/png' || /\.png$/i.test(file.name);
+
+export const isPoseImportFile = (file: File) => isSvgFile(file) || isPngFile(file);
+
+export const createCustomPoseId = () => `custom-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const num = (el: Element, name: string) => {
+  const value = parseFloat(el.getAttribute(name) ?? '');
+  return Number.isFinite(value) ? value : 0;
+};
+
+const ellipsePath = (cx: number, cy: number, rx: number, ry: number) =>
+  `M${cx - rx} ${cy}a${rx} ${ry} 0 1 0 ${rx * 2} 0a${rx} ${ry} 0 1 0 ${-rx * 2} 0z`;
+
+// Path data for one basic shape, or null if it draws nothing or is malformed
+const shapeToPathData = (el: Element): string | null => {
+  switch (el.localName) {
+    case 'path': {
+      const d = el.getAttribute('d')?.trim();
+      return d && isSafePathData(d) ? d : null;
+    }
+    case 'rect': {
+      const w = num(el, 'width');
+      const h = num(el, 'height');
+      return w > 0 && h > 0 ? `M${num(el, 'x')} ${num(el, 'y')}h${w}v${h}h${-w}z` : null;
+    }
+    case 'circle': {
+      const r = num(el, 'r');
+      return r > 0 ? ellipsePath(num(el, 'cx'), num(el, 'cy'), r, r) : null;
+    }
+    case 'ellipse': {
+      const rx = num(el, 'rx');
+      const ry = num(el, 'ry');
+      return rx > 0 && ry > 0 ? ellipsePath(num(el, 'cx'), num(el, 'cy'), rx, ry) : null;
+    }
+    case 'line':
+      return `M${num(el, 'x1')} ${num(el, 'y1')}L${num(el, 'x2')} ${num(el, 'y2')}`;
+    case 'polyline':
+    case 'polygon': {
+      const values = (el.getAttribute('points') ?? '').trim().split(/[\s,]+/).map(Number);
+      if (values.length < 4 || values.some(v => !Number.isFinite(v))) return null;
+      const points: string[] = [];
+      for (let i = 0; i + 1 < values.length; i += 2) points.push(`${values[i]} ${values[i + 1]}`);
+      return `M${points.join('L')}${el.localName === 'polygon' ? 'z' : ''}`;
+    }
+    default:
+      return null;
+  }
+};
+
+const readViewBox = (svg: Element): string => {
+  const box = (svg.getAttribute('viewBox') ?? '').trim().split(/[\s,]+/).map(Number);
+  if (box.length === 4 && box.every(Number.isFinite) && box[2] > 0 && box[3] > 0) return box.join(' ');
+
+  const width = num(svg, 'width');
+  const height = num(svg, 'height');
+  if (width > 0 && height > 0) return `0 0 ${width} ${height}`;
+  throw new PoseImportError('SVG has no usable viewBox or size');
+};
+
+export const parseSvgPose = (markup: string): Pick<Pose, 'svgPath' | 'viewBox'> => {
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const svg = doc.documentElement;
+  if (doc.querySelector('parsererror') || svg.localName !== 'svg') {
+    throw new PoseImportError('Not a valid SVG document');
+  }
+
+  const shapes = Array.from(svg.querySelectorAll(SHAPES)).filter(el => !el.closest(NON_RENDERED));
+  // Pose paths are drawn in viewBox space as-is, so transformed artwork would land in the wrong place
+  if (shapes.some(el => el.closest('[transform]'))) {
+    throw new PoseImportError('SVG transforms are not supported; flatten the artwork first');
+  }
+
+  const svgPath = shapes.map(shapeToPathData).filter((d): d is string => !!d).join(' ');
+  if (!svgPath) throw new PoseImportError('SVG contains no drawable shapes');
+
+  return { svgPath, viewBox: readViewBox(svg) };
+};
+
+const fileToBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+export const importPoseFile = async (file: File): Promise<Pose> => {
+  if (!isPoseImportFile(file)) throw new PoseImportError('Only SVG and PNG files can be imported');
+  if (file.size > POSE_IMPORT_MAX_BYTES) throw new PoseImportError('File is too large');
+
+  const base = {
+    id: createCustomPoseId(),
+    name: file.name.replace(/\.\w+$/, '').trim() || '匯入姿勢',
+    tags: ['匯入'],
+    createdAt: Date.now(),
+  };
+
+  if (isSvgFile(file)) {
+    return { ...base, ...parseSvgPose(await file.text()) };
+  }
+  return { ...base, imageUrl: await processImageForTransparency(await fileToBase64(file), POSE_IMAGE_MAX_EDGE) };
+};
@@ -0,0 +1,40 @@
+import { Pose, PoseLibraryState } from '../types';
+import { POSE_CATEGORIES, POSE_RECENTS_LIMIT } from '../constants';
+
+const POSE_LIBRARY_KEY = 'bf-camera-pose-library';
+
+const EMPTY_LIBRARY: PoseLibraryState = { favorites: [], recents: [] };
+
+export const loadPoseLibrary = (): PoseLibraryState => {
+  try {
+    const raw = localStorage.getItem(POSE_LIBRARY_KEY);
+    return raw ? { ...EMPTY_LIBRARY, ...JSON.parse(raw) } : EMPTY_LIBRARY;
+  } catch (e) {
+    console.warn("Failed to read pose library", e);
+    return EMPTY_LIBRARY;
+  }
+};
+
+export const savePoseLibrary = (library: PoseLibraryState) => {
+  try {
+    localStorage.setItem(POSE_LIBRARY_KEY, JSON.stringify(library));
+  } catch (e) {
+    console.warn("Failed to save pose library", e);
+  }
+};
+
+export const addRecentPose = (recents: string[], poseId: string) =>
+  [poseId, ...recents.filter(id => id !== poseId)].slice(0, POSE_RECENTS_LIMIT);
+
+export const toggleFavoritePose = (favorites: string[], poseId: string) =>
+  favorites.includes(poseId) ? favorites.filter(id => id !== poseId) : [...favorites, poseId];
+
+// Every whitespace-separated term has to appear in the name, a tag or the category label
+export const matchesPoseQuery = (pose: Pose, query: string) => {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const categoryLabel = POSE_CATEGORIES.find(c => c.id === pose.category)?.label ?? '';
+  const haystack = [pose.name, categoryLabel, ...(pose.tags ?? [])].join(' ').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
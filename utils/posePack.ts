@@ -0,0 +1,237 @@
+import { KeypointName, Pose, PosePack, PosePackPose, PoseSkeleton, TransformState } from '../types';
+import { POSE_CATEGORIES, POSE_PACK_FORMAT_VERSION, POSE_PACK_MAX_BYTES, SKELETON_KEYPOINTS } from '../constants';
+import { createCustomPoseId, isSafePathData } from './poseImport';
+
+// .posepack: a JSON file teams pass around to share curated poses. Everything read from one is
+// validated field by field; problems are reported in Chinese with the pose they belong to, since
+// they go straight to the user.
+
+const POSE_PACK_FORMAT = 'bf-camera-posepack';
+const PNG_DATA_URL_PREFIX = 'data:image/png;base64,';
+const PNG_BASE64_SIGNATURE = 'iVBORw0KGgo'; // "\x89PNG\r\n\x1a\n" in base64
+const MAX_REPORTED_ISSUES = 3;
+
+export class PosePackError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(issues.slice(0, MAX_REPORTED_ISSUES).join('；') + (issues.length > MAX_REPORTED_ISSUES ? `；另有 ${issues.length - MAX_REPORTED_ISSUES} 個問題` : ''));
+    this.name = 'PosePackError';
+  }
+}
+
+export const isPosePackFile = (file: File) => /\.posepack$/i.test(file.name);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isViewBox = (value: unknown) => {
+  if (typeof value !== 'string') return false;
+  const box = value.trim().split(/[\s,]+/).map(Number);
+  return box.length === 4 && box.every(Number.isFinite) && box[2] > 0 && box[3] > 0;
+};
+
+const readTransform = (value: unknown): TransformState | null => {
+  if (!isRecord(value)) return null;
+  const { x, y, scale, rotation } = value;
+  const values = [x, y, scale, rotation];
+  if (!values.every(v => typeof v === 'number' && Number.isFinite(v))) return null;
+  // Same scale range the overlay's pinch gesture allows
+  return { x: x as number, y: y as number, scale: Math.max(0.2, Math.min(scale as number, 5)), rotation: rotation as number };
+};
+
+// Known joints with 0-1 coordinates only; null if anything else is in there
+const readSkeleton = (value: unknown): PoseSkeleton | null => {
+  if (!isRecord(value)) return null;
+  const skeleton: PoseSkeleton = {};
+  for (const [name, point] of Object.entries(value)) {
+    if (!SKELETON_KEYPOINTS.includes(name as KeypointName) || !isRecord(point)) return null;
+    const { x, y } = point;
+    if (typeof x !== 'number' || typeof y !== 'number' || !(x >= 0 && x <= 1 && y >= 0 && y <= 1)) return null;
+    skeleton[name as KeypointName] = { x, y };
+  }
+  return skeleton;
+};
+
+// Validates one entry; returns the cleaned pose, or null after recording why it was rejected
+const readPackPose = (value: unknown, label: string, issues: string[]): PosePackPose | null => {
+  if (!isRecord(value)) {
+    issues.push(`${label}不是物件`);
+    return null;
+  }
+
+  const before = issues.length;
+  const { id, name, category, tags, svgPath, viewBox, imageData, skeleton, defaultTransform } = value;
+  if (!isNonEmptyString(id)) issues.push(`${label}缺少 id`);
+  if (!isNonEmptyString(name)) issues.push(`${label}缺少名稱`);
+
+  // Artwork: an SVG path or a PNG (not both), a skeleton, or an outline plus skeleton
+  const hasSvg = svgPath !== undefined;
+  const hasImage = imageData !== undefined;
+  const hasSkeleton = skeleton !== undefined;
+  if (hasSvg && hasImage) {
+    issues.push(`${label}不能同時有 svgPath 和 imageData`);
+  } else if (!hasSvg && !hasImage && !hasSkeleton) {
+    issues.push(`${label}必須有 svgPath、imageData 或 skeleton`);
+  } else if (hasSvg) {
+    if (!isNonEmptyString(svgPath) || !isSafePathData(svgPath)) issues.push(`${label}的 svgPath 不是有效的路徑資料`);
+  } else if (hasImage && (typeof imageData !== 'string' || !imageData.startsWith(PNG_BASE64_SIGNATURE) || !/^[A-Za-z0-9+/]+=*$/.test(imageData))) {
+    issues.push(`${label}的 imageData 不是 base64 PNG`);
+  }
+  if ((hasSvg || viewBox !== undefined) && !isViewBox(viewBox)) {
+    issues.push(`${label}的 viewBox 必須是四個數字`);
+  }
+  const packSkeleton = hasSkeleton ? readSkeleton(skeleton) : undefined;
+  if (packSkeleton === null) {
+    issues.push(`${label}的 skeleton 只能包含 COCO 關節名稱，座標需為 0 到 1 的 x、y`);
+  }
+
+  if (category !== undefined && !POSE_CATEGORIES.some(c => c.id === category)) {
+    issues.push(`${label}的分類「${String(category)}」不存在`);
+  }
+  if (tags !== undefined && !(Array.isArray(tags) && tags.every(t => typeof t === 'string'))) {
+    issues.push(`${label}的 tags 必須是文字陣列`);
+  }
+  const transform = defaultTransform === undefined ? undefined : readTransform(defaultTransform);
+  if (transform === null) issues.push(`${label}的 defaultTransform 需要 x、y、scale、rotation 四個數字`);
+
+  if (issues.length > before) return null;
+  return {
+    id: (id as string).trim(),
+    name: (name as string).trim(),
+    ...(category !== undefined ? { category: category as PosePackPose['category'] } : {}),
+    ...(tags !== undefined ? { tags: tags as string[] } : {}),
+    ...(hasSvg ? { svgPath: (svgPath as string).trim() } : {}),
+    ...(viewBox !== undefined ? { viewBox: (viewBox as string).trim() } : {}),
+    ...(hasImage ? { imageData: imageData as string } : {}),
+    ...(packSkeleton ? { skeleton: packSkeleton } : {}),
+    ...(transform ? { defaultTransform: transform } : {}),
+  };
+};
+
+export const parsePosePack = (text: string): PosePack => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PosePackError(['檔案不是有效的 JSON']);
+  }
+
+  if (!isRecord(data) || data.format !== POSE_PACK_FORMAT) throw new PosePackError(['這不是姿勢包檔案']);
+  const { formatVersion, meta, poses } = data;
+  if (typeof formatVersion !== 'number' || !Number.isInteger(formatVersion) || formatVersion < 1) {
+    throw new PosePackError(['formatVersion 必須是正整數']);
+  }
+  if (formatVersion > POSE_PACK_FORMAT_VERSION) {
+    throw new PosePackError([`姿勢包格式版本 ${formatVersion} 比這個 App 支援的新，請先更新 App`]);
+  }
+
+  const issues: string[] = [];
+  if (!isRecord(meta)) {
+    issues.push('缺少 meta 資訊');
+  } else {
+    if (!isNonEmptyString(meta.name)) issues.push('meta.name（姿勢包名稱）不可空白');
+    if (!isNonEmptyString(meta.version)) issues.push('meta.version（姿勢包版本）不可空白');
+    if (meta.author !== undefined && typeof meta.author !== 'string') issues.push('meta.author 必須是文字');
+  }
+  if (!Array.isArray(poses) || poses.length === 0) {
+    issues.push('poses 必須是至少有一個姿勢的陣列');
+  }
+  if (issues.length > 0) throw new PosePackError(issues);
+
+  const packMeta = meta as Record<string, unknown>;
+  const packPoses = (poses as unknown[]).map((pose, i) => {
+    const name = isRecord(pose) && isNonEmptyString(pose.name) ? `「${pose.name}」` : '';
+    return readPackPose(pose, `第 ${i + 1} 個姿勢${name}`, issues);
+  });
+  if (issues.length > 0) throw new PosePackError(issues);
+
+  return {
+    format: POSE_PACK_FORMAT,
+    formatVersion,
+    meta: {
+      name: (packMeta.name as string).trim(),
+      version: (packMeta.version as string).trim(),
+      ...(isNonEmptyString(packMeta.author) ? { author: packMeta.author.trim() } : {}),
+      ...(typeof packMeta.createdAt === 'number' ? { createdAt: packMeta.createdAt } : {}),
+    },
+    poses: packPoses as PosePackPose[],
+  };
+};
+
+const hasSameArtwork = (a: Pose, b: Pose) =>
+  a.svgPath === b.svgPath && a.viewBox === b.viewBox && a.imageUrl === b.imageUrl
+  && JSON.stringify(a.skeleton ?? null) === JSON.stringify(b.skeleton ?? null);
+
+// Turns a pack into library poses. An id already in use keeps the existing pose: identical artwork is
+// skipped as already imported, different artwork is imported under a fresh id.
+export const posePackToPoses = (pack: PosePack, existing: Pose[]): { poses: Pose[]; skipped: number } => {
+  const known = new Map(existing.map(p => [p.id, p]));
+  const poses: Pose[] = [];
+  let skipped = 0;
+  const createdAt = Date.now();
+
+  pack.poses.forEach((entry, i) => {
+    const pose: Pose = {
+      id: entry.id,
+      name: entry.name,
+      category: entry.category,
+      tags: [...new Set([...(entry.tags ?? []), pack.meta.name])],
+      svgPath: entry.svgPath,
+      viewBox: entry.viewBox,
+      imageUrl: entry.imageData ? PNG_DATA_URL_PREFIX + entry.imageData : undefined,
+      skeleton: entry.skeleton,
+      defaultTransform: entry.defaultTransform,
+      createdAt: createdAt + pack.poses.length - i, // Newest-first sorting then lists them in pack order
+    };
+
+    const clash = known.get(pose.id);
+    if (clash && hasSameArtwork(clash, pose)) {
+      skipped++;
+      return;
+    }
+    if (clash) pose.id = createCustomPoseId();
+    known.set(pose.id, pose);
+    poses.push(pose);
+  });
+
+  return { poses, skipped };
+};
+
+export const readPosePackFile = async (file: File, existing: Pose[]) => {
+  if (file.size > POSE_PACK_MAX_BYTES) throw new PosePackError(['檔案太大']);
+  return posePackToPoses(parsePosePack(await file.text()), existing);
+};
+
+// Builds a pack from library poses. Poses with nothing embeddable (no SVG, PNG data or skeleton) are left out.
+export const createPosePack = (poses: Pose[], meta: { name: string; author?: string }): PosePack => ({
+  format: POSE_PACK_FORMAT,
+  formatVersion: POSE_PACK_FORMAT_VERSION,
+  meta: {
+    name: meta.name,
+    version: '1.0.0',
+    ...(meta.author ? { author: meta.author } : {}),
+    createdAt: Date.now(),
+  },
+  poses: poses.flatMap((pose): PosePackPose[] => {
+    const outline = pose.svgPath && pose.viewBox
+      ? { svgPath: pose.svgPath }
+      : pose.imageUrl?.startsWith(PNG_DATA_URL_PREFIX)
+        ? { imageData: pose.imageUrl.slice(PNG_DATA_URL_PREFIX.length) }
+        : null;
+    if (!outline && !pose.skeleton) return [];
+    return [{
+      id: pose.id,
+      name: pose.name,
+      ...(pose.category ? { category: pose.category } : {}),
+      ...(pose.tags?.length ? { tags: pose.tags } : {}),
+      ...outline,
+      ...(pose.viewBox ? { viewBox: pose.viewBox } : {}),
+      ...(pose.skeleton ? { skeleton: pose.skeleton } : {}),
+      ...(pose.defaultTransform ? { defaultTransform: pose.defaultTransform } : {}),
+    }];
+  }),
+});
+
+export const posePackFileName = (name: string) =>
+  `${name.trim().replace(/[\\/:*?"<>|\s]+/g, '-') || 'poses'}.posepack`;
@@ -0,0 +1,28 @@
+import { Pose } from '../types';
+import { STORES, openDatabase, requestToPromise, transactionDone, ensureStorageHeadroom } from './db';
+
+// Poses the user added (imports), kept apart from the built-in POSES. Image poses carry their
+// artwork inline as a PNG data URL, so a record is all a pose needs.
+
+export const loadCustomPoses = async (): Promise<Pose[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.customPoses, 'readonly');
+  const poses = await requestToPromise<Pose[]>(tx.objectStore(STORES.customPoses).getAll());
+  return poses.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0)); // Newest first
+};
+
+export const saveCustomPoses = async (poses: Pose[]): Promise<void> => {
+  await ensureStorageHeadroom(poses.reduce((sum, p) => sum + (p.imageUrl?.length ?? 0) + (p.svgPath?.length ?? 0), 0));
+
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.customPoses, 'readwrite');
+  poses.forEach(pose => tx.objectStore(STORES.customPoses).put(pose));
+  await transactionDone(tx);
+};
+
+export const deleteCustomPose = async (poseId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.customPoses, 'readwrite');
+  tx.objectStore(STORES.customPoses).delete(poseId);
+  await transactionDone(tx);
+};
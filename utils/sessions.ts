@@ -0,0 +1,68 @@
+import { CaptureRecord, CaptureSession } from '../types';
+import { SESSION_GAP_MS } from '../constants';
+
+export interface SessionGroup {
+  session: CaptureSession;
+  records: CaptureRecord[];
+}
+
+export const defaultSessionName = (epochMs: number) => {
+  const d = new Date(epochMs);
+  const time = d.toLocaleTimeString('zh-TW', { hour: '2-digit', minute: '2-digit', hour12: false });
+  return `拍攝 ${d.getMonth() + 1}/${d.getDate()} ${time}`;
+};
+
+export const createSession = (createdAt = Date.now(), name = defaultSessionName(createdAt)): CaptureSession => ({
+  id: `session-${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  createdAt,
+});
+
+// Split chronologically sorted captures wherever the gap between shots exceeds SESSION_GAP_MS
+export const splitByInactivity = (records: CaptureRecord[]): CaptureRecord[][] => {
+  const groups: CaptureRecord[][] = [];
+  let lastAt = -Infinity;
+
+  for (const record of records) {
+    if (record.createdAt - lastAt > SESSION_GAP_MS) {
+      groups.push([]);
+    }
+    groups[groups.length - 1].push(record);
+    lastAt = record.createdAt;
+  }
+
+  return groups;
+};
+
+// Sessions (oldest first) with their captures; empty sessions are kept so new ones show up
+export const groupCapturesBySession = (records: CaptureRecord[], sessions: CaptureSession[]): SessionGroup[] => {
+  const groups = new Map<string, SessionGroup>();
+  [...sessions]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach(session => groups.set(session.id, { session, records: [] }));
+
+  for (const record of records) {
+    groups.get(record.sessionId)?.records.push(record);
+  }
+
+  return Array.from(groups.values());
+};
+
+// The session a new capture belongs to, or null when a fresh one should be started
+export const findActiveSession = (
+  sessions: CaptureSession[],
+  records: CaptureRecord[],
+  now = Date.now()
+): CaptureSession | null => {
+  const latest = sessions.reduce<CaptureSession | null>(
+    (acc, session) => (!acc || session.createdAt > acc.createdAt ? session : acc),
+    null
+  );
+  if (!latest) return null;
+
+  const lastActivity = records
+    .filter(r => r.sessionId === latest.id)
+    .reduce((acc, r) => Math.max(acc, r.createdAt), latest.createdAt);
+
+  return now - lastActivity > SESSION_GAP_MS ? null : latest;
+};
@@ -0,0 +1,22 @@
+import { AppSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+
+const SETTINGS_KEY = 'bf-camera-settings';
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch (e) {
+    console.warn("Failed to read settings", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Failed to save settings", e);
+  }
+};
@@ -0,0 +1,253 @@
+import { FrameRect, Keypoint, KeypointName, PoseSkeleton } from '../types';
+import { SKELETON_BONES } from '../constants';
+import { getAngle, getDistance, getMidpoint } from './geometry';
+
+// Stick figure geometry for a pose skeleton, in the units of the box it is drawn in (a pose's viewBox,
+// or the guide box in px for poses without one). Shared by the live overlay, thumbnails and rasterizing.
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export interface SkeletonGeometry {
+  bones: { from: Point; to: Point }[];
+  joints: Point[];
+  head: { center: Point; radius: number } | null;
+  neck: { from: Point; to: Point } | null;
+}
+
+const FACE_POINTS: KeypointName[] = ['nose', 'leftEye', 'rightEye', 'leftEar', 'rightEar'];
+
+export const parseViewBox = (viewBox: string): FrameRect => {
+  const [x, y, width, height] = viewBox.split(/[\s,]+/).map(Number);
+  return { x, y, width, height };
+};
+
+export const getSkeletonGeometry = (skeleton: PoseSkeleton, box: FrameRect): SkeletonGeometry => {
+  const at = (name: KeypointName): Point | null => {
+    const k = skeleton[name];
+    return k ? { x: box.x + k.x * box.width, y: box.y + k.y * box.height } : null;
+  };
+
+  const bones = SKELETON_BONES.flatMap(([a, b]) => {
+    const from = at(a);
+    const to = at(b);
+    return from && to ? [{ from, to }] : [];
+  });
+
+  const joints = (Object.keys(skeleton) as KeypointName[])
+    .filter(name => !FACE_POINTS.includes(name))
+    .map(at)
+    .filter((p): p is Point => !!p);
+
+  // Head: a circle around the face points, sized from the ears, the eyes or, failing both, the shoulders
+  const face = FACE_POINTS.map(at).filter((p): p is Point => !!p);
+  const [leftEar, rightEar, leftEye, rightEye] = [at('leftEar'), at('rightEar'), at('leftEye'), at('rightEye')];
+  const [leftShoulder, rightShoulder] = [at('leftShoulder'), at('rightShoulder')];
+  let head: SkeletonGeometry['head'] = null;
+  if (face.length > 0) {
+    const span = leftEar && rightEar ? getDistance(leftEar, rightEar)
+      : leftEye && rightEye ? getDistance(leftEye, rightEye) * 2
+      : leftShoulder && rightShoulder ? getDistance(leftShoulder, rightShoulder) / 2
+      : Math.min(box.width, box.height) * 0.08;
+    head = {
+      center: { x: face.reduce((sum, p) => sum + p.x, 0) / face.length, y: face.reduce((sum, p) => sum + p.y, 0) / face.length },
+      radius: span * 0.65,
+    };
+  }
+
+  // Neck: from between the shoulders up to the edge of the head circle
+  let neck: SkeletonGeometry['neck'] = null;
+  if (head && leftShoulder && rightShoulder) {
+    const base = getMidpoint(leftShoulder, rightShoulder);
+    const length = getDistance(base, head.center);
+    if (length > head.radius) {
+      const t = (length - head.radius) / length;
+      neck = { from: base, to: { x: base.x + (head.center.x - base.x) * t, y: base.y + (head.center.y - base.y) * t } };
+    }
+  }
+
+  return { bones, joints, head, neck };
+};
+
+// Extent of the figure (head circle included), or null for an empty skeleton
+export const getSkeletonBounds = (geometry: SkeletonGeometry): FrameRect | null => {
+  const points: Point[] = [...geometry.joints, ...geometry.bones.flatMap(b => [b.from, b.to])];
+  if (geometry.head) {
+    const { center, radius } = geometry.head;
+    points.push({ x: center.x - radius, y: center.y - radius }, { x: center.x + radius, y: center.y + radius });
+  }
+  if (points.length === 0) return null;
+
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+// Same figure as SVG markup, for rasterizing a pose outside React
+export const skeletonToSvgMarkup = (geometry: SkeletonGeometry, lineWidth: number) => {
+  const line = ({ from, to }: { from: Point; to: Point }) => `<line x1="${from.x}" y1="${from.y}" x2="${to.x}" y2="${to.y}"/>`;
+  const strokes = [...geometry.bones, ...(geometry.neck ? [geometry.neck] : [])].map(line).join('');
+  const head = geometry.head ? `<circle cx="${geometry.head.center.x}" cy="${geometry.head.center.y}" r="${geometry.head.radius}"/>` : '';
+  const joints = geometry.joints.map(p => `<circle cx="${p.x}" cy="${p.y}" r="${lineWidth}"/>`).join('');
+
+  return `<g fill="none" stroke="white" stroke-width="${lineWidth}" stroke-linecap="round" opacity="0.85">${strokes}${head}</g>`
+    + `<g fill="#facc15" stroke="none">${joints}</g>`;
+};
+
+// --- Editing ---
+// Coordinates below are measured in "box space": normalized x stretched by the box's aspect ratio,
+// so lengths compare the same horizontally and vertically.
+
+// Limbs and face: dragging a joint swings it around its parent and carries everything hanging off it
+const JOINT_PARENTS: Partial<Record<KeypointName, KeypointName>> = {
+  leftElbow: 'leftShoulder', leftWrist: 'leftElbow',
+  rightElbow: 'rightShoulder', rightWrist: 'rightElbow',
+  leftKnee: 'leftHip', leftAnkle: 'leftKnee',
+  rightKnee: 'rightHip', rightAnkle: 'rightKnee',
+  leftEye: 'nose', rightEye: 'nose', leftEar: 'nose', rightEar: 'nose',
+};
+
+// The torso is rigid: a hip moves the whole figure, a shoulder leans everything above the hips around them
+const HIPS: KeypointName[] = ['leftHip', 'rightHip'];
+const SHOULDERS: KeypointName[] = ['leftShoulder', 'rightShoulder'];
+const UPPER_BODY: KeypointName[] = [
+  ...SHOULDERS, 'leftElbow', 'rightElbow', 'leftWrist', 'rightWrist',
+  'nose', 'leftEye', 'rightEye', 'leftEar', 'rightEar',
+];
+
+// In a 2D projection a bone can look much shorter (pointing at the camera) but hardly longer
+const MIN_BONE_RATIO = 0.5;
+const MAX_BONE_RATIO = 1.1;
+
+const MIRRORED: Partial<Record<KeypointName, KeypointName>> = {
+  leftEye: 'rightEye', leftEar: 'rightEar', leftShoulder: 'rightShoulder', leftElbow: 'rightElbow',
+  leftWrist: 'rightWrist', leftHip: 'rightHip', leftKnee: 'rightKnee', leftAnkle: 'rightAnkle',
+};
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+const toBox = (k: Keypoint, aspect: number): Point => ({ x: k.x * aspect, y: k.y });
+
+// The point a limb or face joint pivots around: its parent, or for the head, the middle of the shoulders
+const getAnchor = (skeleton: PoseSkeleton, name: KeypointName, aspect: number): Point | null => {
+  const parent = JOINT_PARENTS[name];
+  if (parent) {
+    const p = skeleton[parent];
+    return p ? toBox(p, aspect) : null;
+  }
+  if (name === 'nose' && skeleton.leftShoulder && skeleton.rightShoulder) {
+    return getMidpoint(toBox(skeleton.leftShoulder, aspect), toBox(skeleton.rightShoulder, aspect));
+  }
+  return null;
+};
+
+const getDescendants = (name: KeypointName): KeypointName[] => {
+  const children = (Object.keys(JOINT_PARENTS) as KeypointName[]).filter(child => JOINT_PARENTS[child] === name);
+  return children.flatMap(child => [child, ...getDescendants(child)]);
+};
+
+// Distance of every limb and face joint to its anchor, in box space; the editor keeps bones near these
+export const getRestLengths = (skeleton: PoseSkeleton, aspect: number): Partial<Record<KeypointName, number>> => {
+  const lengths: Partial<Record<KeypointName, number>> = {};
+  (Object.keys(skeleton) as KeypointName[]).forEach(name => {
+    const anchor = getAnchor(skeleton, name, aspect);
+    if (anchor) lengths[name] = getDistance(toBox(skeleton[name]!, aspect), anchor);
+  });
+  return lengths;
+};
+
+// Whole figure shifted by (dx, dy), stopped at the edges of the box instead of squashed against them
+const translateSkeleton = (skeleton: PoseSkeleton, dx: number, dy: number): PoseSkeleton => {
+  const points = Object.values(skeleton) as Keypoint[];
+  const clampShift = (d: number, values: number[]) => Math.max(-Math.min(...values), Math.min(1 - Math.max(...values), d));
+  const sx = clampShift(dx, points.map(k => k.x));
+  const sy = clampShift(dy, points.map(k => k.y));
+
+  const moved: PoseSkeleton = {};
+  (Object.keys(skeleton) as KeypointName[]).forEach(name => {
+    const k = skeleton[name]!;
+    moved[name] = { x: k.x + sx, y: k.y + sy };
+  });
+  return moved;
+};
+
+// Everything above the hips turned by `degrees` around the middle of the hips
+const leanUpperBody = (skeleton: PoseSkeleton, degrees: number, pivot: Point, aspect: number): PoseSkeleton => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  const leaned: PoseSkeleton = { ...skeleton };
+  UPPER_BODY.forEach(name => {
+    const k = skeleton[name];
+    if (!k) return;
+    const p = toBox(k, aspect);
+    const x = pivot.x + (p.x - pivot.x) * cos - (p.y - pivot.y) * sin;
+    const y = pivot.y + (p.x - pivot.x) * sin + (p.y - pivot.y) * cos;
+    leaned[name] = { x: clamp01(x / aspect), y: clamp01(y) };
+  });
+  return leaned;
+};
+
+// Moves `name` toward `target` (normalized). Torso joints move the torso as one piece, so its widths and
+// height never change; limb and face joints keep their bone within a plausible length of its rest length
+// and carry the joints below them along.
+export const moveJoint = (
+  skeleton: PoseSkeleton,
+  name: KeypointName,
+  target: Keypoint,
+  restLengths: Partial<Record<KeypointName, number>>,
+  aspect: number
+): PoseSkeleton => {
+  const current = skeleton[name];
+  if (!current) return skeleton;
+
+  if (HIPS.includes(name)) {
+    return translateSkeleton(skeleton, target.x - current.x, target.y - current.y);
+  }
+
+  if (SHOULDERS.includes(name)) {
+    const { leftHip, rightHip } = skeleton;
+    if (!leftHip || !rightHip) return translateSkeleton(skeleton, target.x - current.x, target.y - current.y);
+    const pivot = getMidpoint(toBox(leftHip, aspect), toBox(rightHip, aspect));
+    const degrees = getAngle(pivot, toBox(target, aspect)) - getAngle(pivot, toBox(current, aspect));
+    return leanUpperBody(skeleton, degrees, pivot, aspect);
+  }
+
+  let next = toBox({ x: clamp01(target.x), y: clamp01(target.y) }, aspect);
+  const anchor = getAnchor(skeleton, name, aspect);
+  const rest = restLengths[name];
+  if (anchor && rest) {
+    const length = getDistance(next, anchor);
+    const clamped = Math.max(rest * MIN_BONE_RATIO, Math.min(rest * MAX_BONE_RATIO, length));
+    if (length > 0 && clamped !== length) {
+      next = { x: anchor.x + (next.x - anchor.x) * clamped / length, y: anchor.y + (next.y - anchor.y) * clamped / length };
+    }
+  }
+
+  const dx = next.x / aspect - current.x;
+  const dy = next.y - current.y;
+  const moved: PoseSkeleton = { ...skeleton, [name]: { x: clamp01(current.x + dx), y: clamp01(current.y + dy) } };
+  getDescendants(name).forEach(child => {
+    const k = skeleton[child];
+    if (k) moved[child] = { x: clamp01(k.x + dx), y: clamp01(k.y + dy) };
+  });
+  return moved;
+};
+
+// Left becomes right: joints swap sides and the figure flips horizontally
+export const mirrorSkeleton = (skeleton: PoseSkeleton): PoseSkeleton => {
+  const swap = (name: KeypointName): KeypointName =>
+    MIRRORED[name] ?? (Object.keys(MIRRORED) as KeypointName[]).find(left => MIRRORED[left] === name) ?? name;
+
+  const mirrored: PoseSkeleton = {};
+  (Object.keys(skeleton) as KeypointName[]).forEach(name => {
+    const k = skeleton[name]!;
+    mirrored[swap(name)] = { x: 1 - k.x, y: k.y };
+  });
+  return mirrored;
+};
@@ -0,0 +1,115 @@
+import { TransformState } from '../types';
+import { FrameMapping, drawPoseGuide } from './compositing';
+import { canvasToBlob } from './image';
+
+export interface RecordedClip {
+  blob: Blob;
+  poster: Blob; // First frame as a JPEG
+  durationMs: number; // Excluding paused time
+  mimeType: string;
+}
+
+export interface VideoRecording {
+  pause: () => void;
+  resume: () => void;
+  stop: () => Promise<RecordedClip>;
+  getElapsedMs: () => number;
+}
+
+interface RecordingOptions {
+  video: HTMLVideoElement;
+  stream: MediaStream;
+  audio: MediaStream | null;
+  mirrored: boolean;
+  // Set to burn the guide in; the transform is read every frame so moving the guide mid-clip is recorded too
+  guide: {
+    image: CanvasImageSource & { width: number; height: number };
+    getTransform: () => TransformState;
+    mapping: FrameMapping;
+  } | null;
+}
+
+const RECORDER_TYPES = ['video/mp4;codecs=avc1', 'video/mp4', 'video/webm;codecs=vp9', 'video/webm'];
+const COMPOSITE_FPS = 30;
+
+export const isVideoRecordingSupported = () => typeof MediaRecorder !== 'undefined';
+
+const pickRecorderMimeType = () => RECORDER_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+// Record the camera stream. Plain rear-camera recordings take the raw track; with a guide or a mirrored
+// (front) camera, frames are redrawn onto a canvas, mirrored like the preview and the poster, with any
+// wireframe on top, and that canvas is recorded instead.
+export const startVideoRecording = async ({ video, stream, audio, mirrored, guide }: RecordingOptions): Promise<VideoRecording> => {
+  if (!isVideoRecordingSupported()) throw new Error('MediaRecorder unsupported');
+
+  // 1. Frame source: the camera track, or a compositing canvas
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const drawFrame = () => {
+    ctx.setTransform(mirrored ? -1 : 1, 0, 0, 1, mirrored ? canvas.width : 0, 0);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    if (guide) drawPoseGuide(ctx, guide.image, guide.getTransform(), guide.mapping);
+  };
+
+  const isComposited = !!guide || mirrored;
+  let frameId: number | null = null;
+  let compositeTracks: MediaStreamTrack[] = [];
+  if (isComposited) {
+    const loop = () => {
+      drawFrame();
+      frameId = requestAnimationFrame(loop);
+    };
+    loop();
+    compositeTracks = canvas.captureStream(COMPOSITE_FPS).getVideoTracks();
+  } else {
+    drawFrame();
+  }
+  const poster = await canvasToBlob(canvas, 'image/jpeg', 0.85);
+
+  // 2. Recorder
+  const tracks = [...(isComposited ? compositeTracks : stream.getVideoTracks()), ...(audio?.getAudioTracks() ?? [])];
+  const preferredType = pickRecorderMimeType();
+  const recorder = new MediaRecorder(new MediaStream(tracks), preferredType ? { mimeType: preferredType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  // The recorder also stops by itself when its tracks end (camera unplugged or released)
+  const finished = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+  recorder.start(1000);
+
+  // 3. Clock that skips paused stretches
+  const startedAt = Date.now();
+  let pausedAt: number | null = null;
+  let pausedTotal = 0;
+  const getElapsedMs = () => (pausedAt ?? Date.now()) - startedAt - pausedTotal;
+
+  return {
+    pause: () => {
+      if (recorder.state !== 'recording') return;
+      recorder.pause();
+      pausedAt = Date.now();
+    },
+    resume: () => {
+      if (recorder.state !== 'paused' || pausedAt === null) return;
+      recorder.resume();
+      pausedTotal += Date.now() - pausedAt;
+      pausedAt = null;
+    },
+    stop: async () => {
+      const durationMs = getElapsedMs();
+      if (recorder.state !== 'inactive') recorder.stop();
+      await finished;
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      compositeTracks.forEach(track => track.stop()); // Only our canvas tracks; the camera keeps running
+      const mimeType = (recorder.mimeType || preferredType || 'video/webm').split(';')[0];
+      return { blob: new Blob(chunks, { type: mimeType }), poster, durationMs, mimeType };
+    },
+    getElapsedMs,
+  };
+};